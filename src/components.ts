@@ -0,0 +1,10 @@
+export { AgentOrb } from "./components/AgentOrb";
+export type { AgentOrbProps } from "./components/AgentOrb";
+export { ChatInput } from "./components/ChatInput";
+export type { ChatInputProps } from "./components/ChatInput";
+export { MicToggle } from "./components/MicToggle";
+export type { MicToggleProps } from "./components/MicToggle";
+export { Transcript } from "./components/Transcript";
+export type { TranscriptProps } from "./components/Transcript";
+export { VoiceButton } from "./components/VoiceButton";
+export type { VoiceButtonProps } from "./components/VoiceButton";
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from "react";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { subscribeAnimationFrame } from "../utils/animationLoop";
+import { classNames } from "./classNames";
+
+export type AgentOrbProps = ConversationSourceProps &
+  React.HTMLAttributes<HTMLDivElement> & {
+    /** Orb 지름 (CSS length, default: `"96px"`) */
+    size?: string;
+  };
+
+/**
+ * Agent 출력 볼륨에 맞춰 커지는 orb입니다.
+ *
+ * @remarks
+ * 다음 CSS 변수로 모양을 바꿀 수 있습니다.
+ * - `--vox-orb-color`: 배경색 (default: `#6366f1`)
+ * - `--vox-orb-idle-opacity`: 연결되지 않았을 때 투명도 (default: `0.4`)
+ * - `--vox-orb-scale`: 최대 볼륨에서 추가로 커지는 비율 (default: `0.35`)
+ *
+ * 현재 볼륨(0 ~ 1)은 `--vox-orb-level` 변수로 매 frame 갱신되며, re-render는 발생하지 않습니다.
+ */
+export function AgentOrb({
+  conversation,
+  size = "96px",
+  className,
+  style,
+  ...divProps
+}: AgentOrbProps) {
+  const { status, isSpeaking, getOutputVolume } = useConversationSource(
+    conversation,
+    "AgentOrb",
+  );
+  const orbRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = orbRef.current;
+    if (!element) return;
+
+    if (!isSpeaking) {
+      element.style.setProperty("--vox-orb-level", "0");
+      return;
+    }
+
+    return subscribeAnimationFrame(() => {
+      element.style.setProperty("--vox-orb-level", String(getOutputVolume()));
+    });
+  }, [isSpeaking, getOutputVolume]);
+
+  return (
+    <div
+      {...divProps}
+      ref={orbRef}
+      className={classNames("vox-agent-orb", className)}
+      data-status={status}
+      data-speaking={isSpeaking}
+      style={{
+        width: size,
+        height: size,
+        borderRadius: "50%",
+        background: "var(--vox-orb-color, #6366f1)",
+        opacity:
+          status === "connected" ? 1 : "var(--vox-orb-idle-opacity, 0.4)",
+        transform:
+          "scale(calc(1 + var(--vox-orb-level, 0) * var(--vox-orb-scale, 0.35)))",
+        transition: "opacity 200ms ease",
+        ...style,
+      }}
+    />
+  );
+}
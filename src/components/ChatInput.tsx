@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { classNames } from "./classNames";
+
+export type ChatInputProps = ConversationSourceProps &
+  Omit<React.FormHTMLAttributes<HTMLFormElement>, "onSubmit" | "onError"> & {
+    placeholder?: string;
+    submitLabel?: React.ReactNode;
+    /** `sendUserMessage` 실패 시 호출 */
+    onError?: (error: Error) => void;
+  };
+
+/** 텍스트 메시지를 `sendUserMessage`로 전송하는 입력 form입니다. */
+export function ChatInput({
+  conversation,
+  placeholder = "Type a message",
+  submitLabel = "Send",
+  onError,
+  className,
+  ...formProps
+}: ChatInputProps) {
+  const { status, sendUserMessage } = useConversationSource(
+    conversation,
+    "ChatInput",
+  );
+  const [text, setText] = useState("");
+  const disabled = status !== "connected";
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+
+    setText("");
+    sendUserMessage(message).catch((err) => {
+      onError?.(err instanceof Error ? err : new Error(String(err)));
+    });
+  };
+
+  return (
+    <form
+      {...formProps}
+      className={classNames("vox-chat-input", className)}
+      onSubmit={handleSubmit}
+    >
+      <input
+        className="vox-chat-input__field"
+        value={text}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(event) => setText(event.target.value)}
+      />
+      <button
+        type="submit"
+        className="vox-chat-input__submit"
+        disabled={disabled || !text.trim()}
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,54 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import React from "react";
+import {
+  ConversationProvider,
+  useConversationActions,
+} from "../context/ConversationProvider";
+import { createMockConversation } from "../testing/createMockConversation";
+import { MockConversationProvider } from "../testing/MockConversationProvider";
+import { MicToggle } from "./MicToggle";
+
+function StartButton() {
+  const { startSession } = useConversationActions();
+  return (
+    <button onClick={() => void startSession({ agentId: "a", apiKey: "k" })}>
+      connect
+    </button>
+  );
+}
+
+describe("MicToggle", () => {
+  it("is disabled until connected and then toggles the mic", async () => {
+    const mock = createMockConversation();
+    render(
+      <MockConversationProvider conversation={mock}>
+        <ConversationProvider>
+          <StartButton />
+          <MicToggle />
+        </ConversationProvider>
+      </MockConversationProvider>,
+    );
+    const toggle = screen.getByRole("button", { name: "Mute" });
+    expect(toggle).toHaveProperty("disabled", true);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "connect" }));
+    });
+    await waitFor(() => expect(toggle).toHaveProperty("disabled", false));
+
+    fireEvent.click(toggle);
+    await waitFor(() => expect(toggle.textContent).toBe("Unmute"));
+    expect(toggle.getAttribute("aria-pressed")).toBe("true");
+    expect(mock.calls.setMicMuted).toEqual([true]);
+
+    fireEvent.click(toggle);
+    await waitFor(() => expect(toggle.textContent).toBe("Mute"));
+    expect(mock.calls.setMicMuted).toEqual([true, false]);
+  });
+});
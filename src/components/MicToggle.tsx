@@ -0,0 +1,44 @@
+import React from "react";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { classNames } from "./classNames";
+
+export type MicToggleProps = ConversationSourceProps &
+  Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "onClick"> & {
+    muteLabel?: React.ReactNode;
+    unmuteLabel?: React.ReactNode;
+  };
+
+/**
+ * `micMuted`를 토글하는 버튼입니다.
+ * `aria-pressed`와 `data-muted` 속성이 현재 음소거 상태를 나타냅니다.
+ */
+export function MicToggle({
+  conversation,
+  muteLabel = "Mute",
+  unmuteLabel = "Unmute",
+  className,
+  disabled,
+  ...buttonProps
+}: MicToggleProps) {
+  const { status, micMuted, setMicMuted } = useConversationSource(
+    conversation,
+    "MicToggle",
+  );
+
+  return (
+    <button
+      type="button"
+      {...buttonProps}
+      className={classNames("vox-mic-toggle", className)}
+      aria-pressed={micMuted}
+      data-muted={micMuted}
+      disabled={disabled || status !== "connected"}
+      onClick={() => void setMicMuted(!micMuted)}
+    >
+      {micMuted ? unmuteLabel : muteLabel}
+    </button>
+  );
+}
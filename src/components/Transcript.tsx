@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from "react";
+import type { ConversationEntry } from "../hooks/useConversation";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { classNames } from "./classNames";
+
+export type TranscriptProps = ConversationSourceProps &
+  React.HTMLAttributes<HTMLOListElement> & {
+    /** 음성 인식 중간 결과 표시 여부 (default: `true`) */
+    showInterim?: boolean;
+    /** 새 메시지가 추가되면 맨 아래로 스크롤 (default: `true`) */
+    autoScroll?: boolean;
+    emptyText?: React.ReactNode;
+    renderMessage?: (message: ConversationEntry) => React.ReactNode;
+  };
+
+/**
+ * `messages`를 순서대로 보여주는 목록입니다.
+ * 각 항목에는 `data-source`와 `data-final` 속성이 붙습니다.
+ */
+export function Transcript({
+  conversation,
+  showInterim = true,
+  autoScroll = true,
+  emptyText = null,
+  renderMessage,
+  className,
+  ...listProps
+}: TranscriptProps) {
+  const { messages } = useConversationSource(conversation, "Transcript");
+  const listRef = useRef<HTMLOListElement>(null);
+
+  const visible = showInterim
+    ? messages
+    : messages.filter((message) => message.isFinal);
+
+  useEffect(() => {
+    if (!autoScroll || !listRef.current) return;
+    listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [autoScroll, messages]);
+
+  return (
+    <ol
+      {...listProps}
+      ref={listRef}
+      className={classNames("vox-transcript", className)}
+    >
+      {visible.length === 0 && emptyText !== null && (
+        <li className="vox-transcript__empty">{emptyText}</li>
+      )}
+      {visible.map((message) => (
+        <li
+          key={message.id}
+          className="vox-transcript__message"
+          data-source={message.source}
+          data-final={message.isFinal}
+        >
+          {renderMessage ? renderMessage(message) : message.text}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,74 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import React from "react";
+import {
+  ConversationFactoryContext,
+  type ConversationFactory,
+} from "../context/ConversationFactoryContext";
+import { ConversationProvider } from "../context/ConversationProvider";
+import { createMockConversation } from "../testing/createMockConversation";
+import { MockConversationProvider } from "../testing/MockConversationProvider";
+import { VoiceButton } from "./VoiceButton";
+
+const START = { agentId: "agent_1", apiKey: "key" };
+
+describe("VoiceButton", () => {
+  it("starts and ends the session on click", async () => {
+    const mock = createMockConversation();
+    render(
+      <MockConversationProvider conversation={mock}>
+        <ConversationProvider>
+          <VoiceButton startOptions={START} />
+        </ConversationProvider>
+      </MockConversationProvider>,
+    );
+    const button = screen.getByRole("button");
+    expect(button.getAttribute("data-status")).toBe("disconnected");
+
+    fireEvent.click(button);
+    await waitFor(() => expect(button.textContent).toBe("End"));
+    expect(mock.lastStartOptions()).toMatchObject(START);
+
+    fireEvent.click(button);
+    await waitFor(() => expect(button.textContent).toBe("Start"));
+    expect(mock.calls.endSession).toBe(1);
+  });
+
+  it("cancels the start when clicked while connecting", async () => {
+    const mock = createMockConversation();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const factory: ConversationFactory = async (options) => {
+      await gate;
+      return mock.factory(options);
+    };
+    const onError = jest.fn();
+    render(
+      <MockConversationProvider conversation={mock}>
+        <ConversationFactoryContext.Provider value={factory}>
+          <ConversationProvider>
+            <VoiceButton startOptions={START} onError={onError} />
+          </ConversationProvider>
+        </ConversationFactoryContext.Provider>
+      </MockConversationProvider>,
+    );
+    const button = screen.getByRole("button");
+
+    fireEvent.click(button);
+    expect(button.textContent).toBe("Connecting…");
+    expect(button.getAttribute("aria-busy")).toBe("true");
+    fireEvent.click(button);
+    await act(async () => release());
+
+    await waitFor(() => expect(button.textContent).toBe("Start"));
+    expect(mock.isActive()).toBe(false);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import type { StartConversationOptions } from "../hooks/useConversation";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { VoxError } from "../utils/errors";
+import { classNames } from "./classNames";
+
+export type VoiceButtonProps = ConversationSourceProps &
+  Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "onClick" | "onError"> & {
+    /** 버튼을 눌렀을 때 `startSession`에 전달할 옵션 */
+    startOptions: StartConversationOptions;
+    startLabel?: React.ReactNode;
+    connectingLabel?: React.ReactNode;
+    endLabel?: React.ReactNode;
+    /** `startSession`/`endSession` 실패 시 호출 */
+    onError?: (error: Error) => void;
+  };
+
+/**
+ * `status`에 따라 session을 시작하거나 종료하는 버튼입니다. 연결 중에 누르면 시작을 취소합니다.
+ * `data-status` 속성으로 상태별 스타일을 지정할 수 있습니다.
+ */
+export function VoiceButton({
+  conversation,
+  startOptions,
+  startLabel = "Start",
+  connectingLabel = "Connecting…",
+  endLabel = "End",
+  onError,
+  className,
+  disabled,
+  ...buttonProps
+}: VoiceButtonProps) {
+  const { status, startSession, endSession } = useConversationSource(
+    conversation,
+    "VoiceButton",
+  );
+  // Covers the moment between the click and the first status change, so a
+  // second click cancels the start instead of starting over.
+  const [isStarting, setIsStarting] = useState(false);
+  const isIdle = status === "disconnected" && !isStarting;
+  const isPending =
+    isStarting || status === "connecting" || status === "requesting-permission";
+
+  const handleClick = () => {
+    let action: Promise<unknown>;
+    if (isIdle) {
+      setIsStarting(true);
+      action = startSession(startOptions).finally(() => setIsStarting(false));
+    } else {
+      action = endSession();
+    }
+    action.catch((err) => {
+      // Clicking while connecting cancels the start; that's not an error.
+      if (err instanceof VoxError && err.code === "aborted") return;
+      onError?.(err instanceof Error ? err : new Error(String(err)));
+    });
+  };
+
+  return (
+    <button
+      type="button"
+      {...buttonProps}
+      className={classNames("vox-voice-button", className)}
+      data-status={status}
+      disabled={disabled}
+      aria-busy={isPending}
+      onClick={handleClick}
+    >
+      {isIdle ? startLabel : isPending ? connectingLabel : endLabel}
+    </button>
+  );
+}
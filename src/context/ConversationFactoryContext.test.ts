@@ -0,0 +1,37 @@
+import { createMockConversation } from "../testing/createMockConversation";
+import {
+  getConversationCapabilities,
+  type ConversationLike,
+} from "./ConversationFactoryContext";
+
+describe("getConversationCapabilities", () => {
+  it("reports nothing without a connection", () => {
+    expect(Object.values(getConversationCapabilities(null))).not.toContain(
+      true,
+    );
+  });
+
+  it("reports the optional methods a client implements", async () => {
+    const mock = createMockConversation();
+    const conversation = await mock.factory({
+      agentId: "agent_1",
+      apiKey: "key",
+    });
+
+    expect(getConversationCapabilities(conversation)).toMatchObject({
+      dtmf: true,
+      endUserTurn: true,
+      recording: false,
+      contextualUpdates: true,
+      dynamicVariableUpdates: true,
+    });
+    expect(
+      getConversationCapabilities({
+        ...conversation,
+        endUserTurn: undefined,
+        getInputMediaStream: () => undefined,
+        getOutputMediaStream: () => undefined,
+      } as ConversationLike),
+    ).toMatchObject({ endUserTurn: false, recording: true });
+  });
+});
@@ -0,0 +1,101 @@
+import type {
+  ConversationMessage,
+  ConversationMode,
+  ConversationStatus,
+  InputDeviceConfig,
+  OutputDeviceConfig,
+  SetVolumeParams,
+  StartSessionOptions,
+} from "@vox-ai/client";
+import { createContext } from "react";
+import { isBrowser } from "../utils/env";
+
+/** `useConversation`이 사용하는 conversation instance의 최소 interface입니다. */
+export interface ConversationLike {
+  endSession(): Promise<void>;
+  getId(): string | undefined;
+  getStatus(): ConversationStatus;
+  getMode(): ConversationMode;
+  getMicMuted(): boolean;
+  getMessages(): ConversationMessage[];
+  setVolume(params: SetVolumeParams): void;
+  setMicMuted(isMuted: boolean): Promise<void>;
+  sendUserMessage(text: string): Promise<void>;
+  changeInputDevice(config: InputDeviceConfig): Promise<boolean>;
+  changeOutputDevice(config: OutputDeviceConfig): Promise<boolean>;
+  getInputVolume(): number;
+  getOutputVolume(): number;
+  getInputByteFrequencyData(): Uint8Array | undefined;
+  getOutputByteFrequencyData(): Uint8Array | undefined;
+  /** 사용자 턴이 끝났음을 agent에 알립니다 (push-to-talk). 지원하지 않는 client에서는 없을 수 있습니다. */
+  endUserTurn?(): Promise<void>;
+  /** DTMF 숫자 하나(`0`-`9`, `*`, `#`)를 보냅니다. 지원하지 않는 client에서는 없을 수 있습니다. */
+  sendDtmf?(digit: string): Promise<void>;
+  /** 사용자 턴을 만들지 않고 agent에 context를 전달합니다. */
+  sendContextualUpdate?(text: string): Promise<void>;
+  /** Session 중에 dynamic variables 일부를 바꿉니다. */
+  updateDynamicVariables?(
+    variables: Record<string, string | number | boolean>,
+  ): Promise<void>;
+  /** 녹음에 사용하는 사용자 마이크 stream */
+  getInputMediaStream?(): MediaStream | undefined;
+  /** 녹음에 사용하는 agent 음성 stream */
+  getOutputMediaStream?(): MediaStream | undefined;
+}
+
+/**
+ * 연결된 client가 제공하는 선택 기능입니다. 현재 `@vox-ai/client`는 이 기능들을
+ * 구현하지 않으므로 실제 client로 연결하면 모두 `false`입니다.
+ */
+export type ConversationCapabilities = {
+  /** `sendDtmf`로 키패드 입력을 보낼 수 있는지 여부 */
+  dtmf: boolean;
+  /** Push-to-talk의 `signalTurnEnd`로 사용자 턴 종료를 알릴 수 있는지 여부 */
+  endUserTurn: boolean;
+  /** `startRecording`/`recording` 옵션으로 대화 음성을 녹음할 수 있는지 여부 */
+  recording: boolean;
+  /** `sendContextualUpdate`로 context를 보낼 수 있는지 여부. `handoff()`의 메시지 전달에도 사용 */
+  contextualUpdates: boolean;
+  /** `updateDynamicVariables`로 session 중에 dynamic variables를 바꿀 수 있는지 여부 */
+  dynamicVariableUpdates: boolean;
+};
+
+export function getConversationCapabilities(
+  conversation: ConversationLike | null,
+): ConversationCapabilities {
+  return {
+    dtmf: typeof conversation?.sendDtmf === "function",
+    endUserTurn: typeof conversation?.endUserTurn === "function",
+    recording:
+      typeof conversation?.getInputMediaStream === "function" &&
+      typeof conversation.getOutputMediaStream === "function",
+    contextualUpdates: typeof conversation?.sendContextualUpdate === "function",
+    dynamicVariableUpdates:
+      typeof conversation?.updateDynamicVariables === "function",
+  };
+}
+
+export type ConversationFactory = (
+  options: StartSessionOptions,
+) => Promise<ConversationLike>;
+
+// `@vox-ai/client` (and livekit-client with it) touches browser globals, so it
+// is only loaded once a session actually starts. This keeps every export of
+// this package safe to import during server rendering.
+export const defaultConversationFactory: ConversationFactory = async (
+  options,
+) => {
+  if (!isBrowser()) {
+    throw new Error("Conversations can only be started in the browser");
+  }
+  const { Conversation } = await import("@vox-ai/client");
+  return Conversation.startSession(options);
+};
+
+/**
+ * `useConversation`이 session을 만들 때 사용하는 factory입니다.
+ * 테스트에서는 `@vox-ai/react/testing`의 `MockConversationProvider`가 이 값을 교체합니다.
+ */
+export const ConversationFactoryContext = createContext<ConversationFactory>(
+  defaultConversationFactory,
+);
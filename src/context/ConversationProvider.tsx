@@ -0,0 +1,269 @@
+import React, { createContext, useContext, useMemo, useRef } from "react";
+import {
+  useConversation,
+  type ConversationEntry,
+  type ConversationMessageStore,
+  type ConversationStatus,
+  type UseConversationOptions,
+  type UseConversationResult,
+} from "../hooks/useConversation";
+
+export type ConversationActions = Pick<
+  UseConversationResult,
+  | "startSession"
+  | "handoff"
+  | "endSession"
+  | "extendSession"
+  | "on"
+  | "off"
+  | "getId"
+  | "getSessionStats"
+  | "getMessages"
+  | "messageStore"
+  | "exportTranscript"
+  | "loadStoredConversation"
+  | "listStoredConversations"
+  | "clearStoredConversation"
+  | "requestMicrophonePermission"
+  | "setVolume"
+  | "setMicMuted"
+  | "startTalking"
+  | "stopTalking"
+  | "bindPushToTalk"
+  | "startRecording"
+  | "stopRecording"
+  | "sendUserMessage"
+  | "sendDtmf"
+  | "sendContextualUpdate"
+  | "updateDynamicVariables"
+  | "getDynamicVariables"
+  | "changeInputDevice"
+  | "changeOutputDevice"
+  | "getInputVolume"
+  | "getOutputVolume"
+  | "getInputByteFrequencyData"
+  | "getOutputByteFrequencyData"
+>;
+
+export type ConversationStatusState = {
+  status: ConversationStatus;
+  isSpeaking: boolean;
+};
+
+export type MicState = {
+  micMuted: boolean;
+  setMicMuted: UseConversationResult["setMicMuted"];
+};
+
+export type ConversationProviderProps = UseConversationOptions & {
+  children?: React.ReactNode;
+};
+
+const ConversationContext = createContext<UseConversationResult | null>(null);
+const ActionsContext = createContext<ConversationActions | null>(null);
+const StatusContext = createContext<ConversationStatusState | null>(null);
+const MessagesContext = createContext<ConversationEntry[] | null>(null);
+const MicMutedContext = createContext<boolean | null>(null);
+
+/**
+ * 하나의 conversation session을 소유하고 하위 component tree에 공유합니다.
+ *
+ * @remarks
+ * 상태는 slice별 context로 나뉘어 있어, 예를 들어 `useMicState()`만 쓰는
+ * component는 새 메시지가 도착해도 re-render되지 않습니다.
+ */
+export function ConversationProvider({
+  children,
+  ...options
+}: ConversationProviderProps) {
+  const conversation = useConversation(options);
+
+  // A few methods follow state (`getMessages` is re-created with `messages`),
+  // so expose stable wrappers that always delegate to the latest hook result.
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+
+  const actions = useMemo<ConversationActions>(
+    () => ({
+      startSession: (params) => conversationRef.current.startSession(params),
+      handoff: (handoffOptions) =>
+        conversationRef.current.handoff(handoffOptions),
+      endSession: () => conversationRef.current.endSession(),
+      extendSession: (extraMs) =>
+        conversationRef.current.extendSession(extraMs),
+      getId: () => conversationRef.current.getId(),
+      getSessionStats: () => conversationRef.current.getSessionStats(),
+      getMessages: () => conversationRef.current.getMessages(),
+      // Created once per hook instance, so these are already stable.
+      on: conversationRef.current.on,
+      off: conversationRef.current.off,
+      messageStore: conversationRef.current.messageStore,
+      exportTranscript: (format, exportOptions) =>
+        conversationRef.current.exportTranscript(format, exportOptions),
+      loadStoredConversation: (conversationId) =>
+        conversationRef.current.loadStoredConversation(conversationId),
+      listStoredConversations: () =>
+        conversationRef.current.listStoredConversations(),
+      clearStoredConversation: (conversationId) =>
+        conversationRef.current.clearStoredConversation(conversationId),
+      requestMicrophonePermission: () =>
+        conversationRef.current.requestMicrophonePermission(),
+      setVolume: (volume) => conversationRef.current.setVolume(volume),
+      setMicMuted: (isMuted) => conversationRef.current.setMicMuted(isMuted),
+      startTalking: () => conversationRef.current.startTalking(),
+      stopTalking: () => conversationRef.current.stopTalking(),
+      bindPushToTalk: (element) =>
+        conversationRef.current.bindPushToTalk(element),
+      startRecording: (recordingOptions) =>
+        conversationRef.current.startRecording(recordingOptions),
+      stopRecording: () => conversationRef.current.stopRecording(),
+      sendUserMessage: (text) => conversationRef.current.sendUserMessage(text),
+      sendDtmf: (digits, dtmfOptions) =>
+        conversationRef.current.sendDtmf(digits, dtmfOptions),
+      sendContextualUpdate: (update) =>
+        conversationRef.current.sendContextualUpdate(update),
+      updateDynamicVariables: (variables) =>
+        conversationRef.current.updateDynamicVariables(variables),
+      getDynamicVariables: () => conversationRef.current.getDynamicVariables(),
+      changeInputDevice: (config) =>
+        conversationRef.current.changeInputDevice(config),
+      changeOutputDevice: (config) =>
+        conversationRef.current.changeOutputDevice(config),
+      getInputVolume: () => conversationRef.current.getInputVolume(),
+      getOutputVolume: () => conversationRef.current.getOutputVolume(),
+      getInputByteFrequencyData: () =>
+        conversationRef.current.getInputByteFrequencyData(),
+      getOutputByteFrequencyData: () =>
+        conversationRef.current.getOutputByteFrequencyData(),
+    }),
+    [],
+  );
+
+  const { status, isSpeaking, messages, micMuted } = conversation;
+
+  const statusState = useMemo(
+    () => ({ status, isSpeaking }),
+    [status, isSpeaking],
+  );
+
+  const value = useMemo(
+    () => ({ ...conversation, ...actions }),
+    [conversation, actions],
+  );
+
+  return (
+    <ConversationContext.Provider value={value}>
+      <ActionsContext.Provider value={actions}>
+        <StatusContext.Provider value={statusState}>
+          <MessagesContext.Provider value={messages}>
+            <MicMutedContext.Provider value={micMuted}>
+              {children}
+            </MicMutedContext.Provider>
+          </MessagesContext.Provider>
+        </StatusContext.Provider>
+      </ActionsContext.Provider>
+    </ConversationContext.Provider>
+  );
+}
+
+function useRequiredContext<T>(
+  context: React.Context<T | null>,
+  hookName: string,
+): T {
+  const value = useContext(context);
+  if (value === null) {
+    throw new Error(`${hookName} must be used within a ConversationProvider`);
+  }
+  return value;
+}
+
+/** Provider 밖에서는 `null`을 반환하는 `useConversationContext`입니다. */
+export function useOptionalConversationContext(): UseConversationResult | null {
+  return useContext(ConversationContext);
+}
+
+export type ConversationSourceProps = {
+  /** `useConversation()` 결과. 생략하면 가장 가까운 `ConversationProvider`를 사용합니다. */
+  conversation?: UseConversationResult;
+};
+
+/** 명시적으로 전달된 hook 결과를 우선 사용하고, 없으면 provider의 session을 사용합니다. */
+export function useConversationSource(
+  conversation: UseConversationResult | undefined,
+  consumerName: string,
+): UseConversationResult {
+  const fromContext = useOptionalConversationContext();
+  const source = conversation ?? fromContext;
+  if (!source) {
+    throw new Error(
+      `${consumerName} requires a conversation or a ConversationProvider`,
+    );
+  }
+  return source;
+}
+
+/**
+ * `useConversationSource`와 같지만 message store만 필요한 hook용입니다.
+ * Provider의 `messages`가 바뀌어도 호출한 component를 re-render하지 않습니다.
+ */
+export function useMessageStoreSource(
+  conversation: UseConversationResult | undefined,
+  consumerName: string,
+): ConversationMessageStore {
+  const actions = useContext(ActionsContext);
+  const store = conversation?.messageStore ?? actions?.messageStore;
+  if (!store) {
+    throw new Error(
+      `${consumerName} requires a conversation or a ConversationProvider`,
+    );
+  }
+  return store;
+}
+
+/**
+ * `useConversationSource`와 같지만 event 구독만 필요한 hook용입니다.
+ * Provider의 state가 바뀌어도 호출한 component를 re-render하지 않습니다.
+ */
+export function useConversationEventSource(
+  conversation: UseConversationResult | undefined,
+  consumerName: string,
+): Pick<ConversationActions, "on" | "off"> {
+  const actions = useContext(ActionsContext);
+  const source = conversation ?? actions;
+  if (!source) {
+    throw new Error(
+      `${consumerName} requires a conversation or a ConversationProvider`,
+    );
+  }
+  return source;
+}
+
+/**
+ * Provider가 소유한 session의 전체 hook 결과를 반환합니다.
+ * 모든 상태 변경에 re-render되므로, 가능하면 아래의 세분화된 hook을 사용하세요.
+ */
+export function useConversationContext(): UseConversationResult {
+  return useRequiredContext(ConversationContext, "useConversationContext");
+}
+
+/** Session 제어 메서드만 반환합니다. 반환값은 항상 동일한 참조입니다. */
+export function useConversationActions(): ConversationActions {
+  return useRequiredContext(ActionsContext, "useConversationActions");
+}
+
+/** `status`와 `isSpeaking`이 바뀔 때만 re-render됩니다. */
+export function useConversationStatus(): ConversationStatusState {
+  return useRequiredContext(StatusContext, "useConversationStatus");
+}
+
+/** `messages`가 바뀔 때만 re-render됩니다. */
+export function useConversationMessages(): ConversationEntry[] {
+  return useRequiredContext(MessagesContext, "useConversationMessages");
+}
+
+/** `micMuted`가 바뀔 때만 re-render됩니다. */
+export function useMicState(): MicState {
+  const micMuted = useRequiredContext(MicMutedContext, "useMicState");
+  const { setMicMuted } = useConversationActions();
+  return useMemo(() => ({ micMuted, setMicMuted }), [micMuted, setMicMuted]);
+}
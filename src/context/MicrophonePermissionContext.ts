@@ -0,0 +1,26 @@
+import { createContext } from "react";
+import {
+  checkMicrophonePermission,
+  requestMicrophonePermission,
+  subscribeMicrophonePermission,
+  type MicrophonePermission,
+} from "../utils/permissions";
+
+/** `useConversation`이 마이크 권한을 조회/요청할 때 사용하는 interface입니다. */
+export interface MicrophonePermissionApi {
+  check(): Promise<MicrophonePermission>;
+  request(): Promise<MicrophonePermission>;
+  subscribe(listener: (permission: MicrophonePermission) => void): () => void;
+}
+
+export const browserMicrophonePermission: MicrophonePermissionApi = {
+  check: checkMicrophonePermission,
+  request: requestMicrophonePermission,
+  subscribe: subscribeMicrophonePermission,
+};
+
+/**
+ * 테스트에서는 `@vox-ai/react/testing`의 `MockConversationProvider`가 이 값을 교체합니다.
+ */
+export const MicrophonePermissionContext =
+  createContext<MicrophonePermissionApi>(browserMicrophonePermission);
@@ -1 +1,7 @@
+export * from "./useAudioLevels";
 export * from "./useConversation";
+export * from "./useConversationEvent";
+export * from "./useConversationSelector";
+export * from "./useMediaDevices";
+export * from "./useTurns";
+export * from "./useVoxAI";
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState, type MutableRefObject } from "react";
+import { useConversationSource } from "../context/ConversationProvider";
+import { subscribeAnimationFrame } from "../utils/animationLoop";
+import { toFrequencyBars } from "../utils/audio";
+import type { UseConversationResult } from "./useConversation";
+
+export type AudioLevels = {
+  /** 현재 볼륨 (0 ~ 1) */
+  volume: number;
+  /** `fftBins`개의 주파수 대역별 크기 (0 ~ 1) */
+  frequencies: number[];
+};
+
+export type UseAudioLevelsOptions = {
+  /** 측정 대상: 사용자 마이크(`"input"`) 또는 agent 음성(`"output"`) (default: `"output"`) */
+  source?: "input" | "output";
+  /** 반환할 주파수 대역 수. `0`이면 주파수 데이터를 읽지 않음 (default: `0`) */
+  fftBins?: number;
+  /** 이전 값과의 지수 평활 계수, 0 ~ 1 (default: `0.5`) */
+  smoothing?: number;
+  /** 초당 갱신 횟수 (default: `30`) */
+  fps?: number;
+  /**
+   * `"state"`: 매 갱신마다 React state를 변경 (re-render 발생)
+   * `"ref"`: `levelsRef.current`만 갱신 (canvas 렌더링 등 re-render 없이 사용)
+   * (default: `"state"`)
+   */
+  mode?: "state" | "ref";
+  /** `useConversation()` 결과. 생략하면 가장 가까운 `ConversationProvider`를 사용 */
+  conversation?: UseConversationResult;
+};
+
+export type UseAudioLevelsResult = AudioLevels & {
+  levelsRef: MutableRefObject<AudioLevels>;
+};
+
+const SILENT: AudioLevels = { volume: 0, frequencies: [] };
+
+function silentLevels(fftBins: number): AudioLevels {
+  return { volume: 0, frequencies: Array(fftBins).fill(0) };
+}
+
+/**
+ * 입력/출력 오디오 레벨을 구독합니다.
+ *
+ * @remarks
+ * 모든 구독자는 하나의 `requestAnimationFrame` loop를 공유하며,
+ * 탭이 숨겨지거나 session이 `connected`가 아니면 자동으로 멈춥니다.
+ *
+ * @example
+ * ```tsx
+ * // React state로 사용
+ * const { volume } = useAudioLevels({ source: "input", fps: 20 });
+ *
+ * // Canvas renderer에서 re-render 없이 사용
+ * const { levelsRef } = useAudioLevels({ fftBins: 32, mode: "ref" });
+ * ```
+ */
+export function useAudioLevels({
+  source = "output",
+  fftBins = 0,
+  smoothing = 0.5,
+  fps = 30,
+  mode = "state",
+  conversation,
+}: UseAudioLevelsOptions = {}): UseAudioLevelsResult {
+  const {
+    status,
+    getInputVolume,
+    getOutputVolume,
+    getInputByteFrequencyData,
+    getOutputByteFrequencyData,
+  } = useConversationSource(conversation, "useAudioLevels");
+
+  const levelsRef = useRef<AudioLevels>(
+    fftBins ? silentLevels(fftBins) : SILENT,
+  );
+  const [levels, setLevels] = useState<AudioLevels>(levelsRef.current);
+
+  useEffect(() => {
+    const reset = fftBins ? silentLevels(fftBins) : SILENT;
+    levelsRef.current = reset;
+    if (mode === "state") setLevels(reset);
+
+    if (status !== "connected") return;
+
+    const alpha = Math.min(Math.max(smoothing, 0), 1);
+    const smooth = (previous: number, next: number) =>
+      previous * alpha + next * (1 - alpha);
+
+    return subscribeAnimationFrame(() => {
+      const previous = levelsRef.current;
+      const volume = source === "input" ? getInputVolume() : getOutputVolume();
+      const frequencies = fftBins
+        ? toFrequencyBars(
+            source === "input"
+              ? getInputByteFrequencyData()
+              : getOutputByteFrequencyData(),
+            fftBins,
+          ).map((value, index) =>
+            smooth(previous.frequencies[index] ?? 0, value),
+          )
+        : previous.frequencies;
+
+      const next = { volume: smooth(previous.volume, volume), frequencies };
+      levelsRef.current = next;
+      if (mode === "state") setLevels(next);
+    }, fps);
+  }, [
+    status,
+    source,
+    fftBins,
+    smoothing,
+    fps,
+    mode,
+    getInputVolume,
+    getOutputVolume,
+    getInputByteFrequencyData,
+    getOutputByteFrequencyData,
+  ]);
+
+  return { ...levels, levelsRef };
+}
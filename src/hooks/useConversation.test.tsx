@@ -0,0 +1,907 @@
+import { act, render, renderHook, waitFor } from "@testing-library/react";
+import React, { StrictMode, useEffect } from "react";
+import {
+  ConversationFactoryContext,
+  type ConversationFactory,
+} from "../context/ConversationFactoryContext";
+import {
+  createMockConversation,
+  type MockConversation,
+} from "../testing/createMockConversation";
+import { MockConversationProvider } from "../testing/MockConversationProvider";
+import { VoxError } from "../utils/errors";
+import { createLocalStorageAdapter } from "../utils/persistence";
+import * as recordingModule from "../utils/recording";
+import {
+  useConversation,
+  type StartConversationOptions,
+  type UseConversationOptions,
+} from "./useConversation";
+
+const START: StartConversationOptions = { agentId: "agent_1", apiKey: "key" };
+
+function renderConversation(
+  mock: MockConversation,
+  options: UseConversationOptions = {},
+  factory?: ConversationFactory,
+) {
+  const wrapper = ({ children }: { children?: React.ReactNode }) => (
+    <MockConversationProvider conversation={mock}>
+      {factory ? (
+        <ConversationFactoryContext.Provider value={factory}>
+          {children}
+        </ConversationFactoryContext.Provider>
+      ) : (
+        children
+      )}
+    </MockConversationProvider>
+  );
+  return renderHook((props: UseConversationOptions) => useConversation(props), {
+    wrapper,
+    initialProps: options,
+  });
+}
+
+// Holds every connection until `release()` so tests can act mid-start.
+function createGatedFactory(mock: MockConversation) {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const factory: ConversationFactory = async (options) => {
+    await gate;
+    return mock.factory(options);
+  };
+  return { factory, release };
+}
+
+// Fails every connection after the first `successes`.
+function createFailingFactory(mock: MockConversation, successes: number) {
+  let count = 0;
+  const factory: ConversationFactory = async (options) => {
+    count += 1;
+    if (count > successes) throw new Error("connection refused");
+    return mock.factory(options);
+  };
+  return factory;
+}
+
+async function expectAborted(promise: Promise<unknown>) {
+  await expect(promise).rejects.toMatchObject({ code: "aborted" });
+}
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  localStorage.clear();
+  globalThis.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+describe("useConversation", () => {
+  describe("startSession / endSession", () => {
+    it("connects through the factory and reports the lifecycle", async () => {
+      const mock = createMockConversation({ conversationId: "conv_1" });
+      const onConnect = jest.fn();
+      const onDisconnect = jest.fn();
+      const onStatusChange = jest.fn();
+      const { result } = renderConversation(mock, {
+        onConnect,
+        onDisconnect,
+        onStatusChange,
+      });
+
+      let conversationId: string | undefined;
+      await act(async () => {
+        conversationId = await result.current.startSession({
+          ...START,
+          dynamicVariables: { name: "Kim" },
+        });
+      });
+
+      expect(conversationId).toBe("conv_1");
+      expect(result.current.status).toBe("connected");
+      expect(result.current.agent).toEqual({ agentId: "agent_1" });
+      expect(onConnect).toHaveBeenCalledTimes(1);
+      expect(onStatusChange).toHaveBeenLastCalledWith("connected");
+      expect(mock.lastStartOptions()).toMatchObject({
+        agentId: "agent_1",
+        apiKey: "key",
+        dynamicVariables: { name: "Kim" },
+      });
+
+      await act(() => result.current.endSession());
+
+      expect(result.current.status).toBe("disconnected");
+      expect(mock.calls.endSession).toBe(1);
+      expect(onDisconnect).toHaveBeenCalledWith({ reason: "user" });
+    });
+
+    it("rejects with a permission error when the prompt is denied", async () => {
+      const mock = createMockConversation({
+        permission: "prompt",
+        permissionResponse: "denied",
+      });
+      const { result } = renderConversation(mock);
+
+      await act(async () => {
+        await expect(result.current.startSession(START)).rejects.toMatchObject({
+          code: "microphone_permission_denied",
+        });
+      });
+
+      expect(result.current.status).toBe("disconnected");
+      expect(result.current.permission).toBe("denied");
+      expect(mock.calls.startSession).toHaveLength(0);
+    });
+
+    it("skips the permission check for text-only sessions", async () => {
+      const mock = createMockConversation({
+        permission: "prompt",
+        permissionResponse: "denied",
+      });
+      const { result } = renderConversation(mock, { textOnly: true });
+
+      await act(() => result.current.startSession(START));
+
+      expect(result.current.status).toBe("connected");
+      expect(mock.calls.requestPermission).toBe(0);
+    });
+  });
+
+  describe("messages", () => {
+    it("tags stored and emitted messages with the agent", async () => {
+      const mock = createMockConversation();
+      const onMessage = jest.fn();
+      const { result } = renderConversation(mock, { onMessage });
+      await act(() => result.current.startSession(START));
+      const listener = jest.fn();
+      result.current.on("message", listener);
+
+      act(() => {
+        mock.streamMessage({ id: "m1", source: "agent" }, ["Hi", " there"]);
+      });
+
+      expect(result.current.messages).toEqual([
+        expect.objectContaining({
+          id: "m1",
+          text: "Hi there",
+          isFinal: true,
+          agentId: "agent_1",
+        }),
+      ]);
+      expect(onMessage).toHaveBeenCalledTimes(3);
+      expect(onMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ agentId: "agent_1", isFinal: true }),
+      );
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ agentId: "agent_1" }),
+      );
+    });
+
+    it("routes a throwing listener to onError", async () => {
+      const mock = createMockConversation();
+      const onError = jest.fn();
+      const { result } = renderConversation(mock, { onError });
+      await act(() => result.current.startSession(START));
+      const next = jest.fn();
+      result.current.on("message", () => {
+        throw new Error("listener failed");
+      });
+      result.current.on("message", next);
+
+      act(() => {
+        mock.emitMessage({ source: "agent", text: "Hello" });
+      });
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(expect.any(VoxError));
+      expect(onError.mock.calls[0][0].message).toBe("listener failed");
+    });
+  });
+
+  describe("client tools", () => {
+    it("answers the agent and records the call", async () => {
+      const mock = createMockConversation();
+      const lookupOrder = jest.fn(async () => ({ status: "shipped" }));
+      const { result } = renderConversation(mock, {
+        clientTools: { lookupOrder },
+      });
+      await act(() => result.current.startSession(START));
+
+      let toolResult: unknown;
+      await act(async () => {
+        toolResult = await mock.callTool("lookupOrder", { orderId: "42" });
+      });
+
+      expect(lookupOrder).toHaveBeenCalledWith({ orderId: "42" });
+      expect(toolResult).toMatchObject({
+        result: '{"status":"shipped"}',
+        isError: false,
+      });
+      expect(result.current.toolCalls).toEqual([
+        expect.objectContaining({
+          toolName: "lookupOrder",
+          result: '{"status":"shipped"}',
+          isError: false,
+          completedAt: expect.any(Number),
+        }),
+      ]);
+    });
+  });
+
+  describe("push to talk", () => {
+    it("opens the mic while the hotkey is held and ends the turn on release", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock, {
+        pushToTalk: { signalTurnEnd: true },
+      });
+      await act(() => result.current.startSession(START));
+      expect(result.current.micMuted).toBe(true);
+
+      await act(async () => {
+        window.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+      });
+      expect(result.current.isTalking).toBe(true);
+      expect(result.current.micMuted).toBe(false);
+      expect(mock.calls.endUserTurn).toBe(0);
+
+      await act(async () => {
+        window.dispatchEvent(new KeyboardEvent("keyup", { code: "Space" }));
+      });
+      expect(result.current.isTalking).toBe(false);
+      expect(result.current.micMuted).toBe(true);
+      expect(mock.calls.endUserTurn).toBe(1);
+    });
+
+    it("leaves the turn open without signalTurnEnd", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock, { pushToTalk: true });
+      await act(() => result.current.startSession(START));
+
+      await act(() => result.current.startTalking());
+      await act(() => result.current.stopTalking());
+
+      expect(mock.calls.setMicMuted).toEqual([true, false, true]);
+      expect(mock.calls.endUserTurn).toBe(0);
+    });
+  });
+
+  describe("dtmf", () => {
+    it("sends digits when the client supports DTMF", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock);
+      expect(result.current.capabilities.dtmf).toBe(false);
+      await act(() => result.current.startSession(START));
+
+      await act(() => result.current.sendDtmf("1#", { intervalMs: 0 }));
+
+      expect(result.current.capabilities.dtmf).toBe(true);
+      expect(mock.calls.sendDtmf).toEqual(["1", "#"]);
+    });
+
+    it("reports a client without DTMF as unsupported", async () => {
+      const mock = createMockConversation();
+      const onError = jest.fn();
+      const { result } = renderConversation(
+        mock,
+        { onError },
+        async (options) => {
+          const conversation = await mock.factory(options);
+          return { ...conversation, sendDtmf: undefined };
+        },
+      );
+      await act(() => result.current.startSession(START));
+
+      expect(result.current.capabilities.dtmf).toBe(false);
+      await act(async () => {
+        await expect(result.current.sendDtmf("1")).rejects.toMatchObject({
+          code: "invalid_state",
+        });
+      });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("options", () => {
+    it("keeps methods stable and calls the latest callbacks", async () => {
+      const mock = createMockConversation();
+      const first = jest.fn();
+      const second = jest.fn();
+      const { result, rerender } = renderConversation(mock, {
+        onMessage: first,
+      });
+      const { startSession, endSession, handoff } = result.current;
+      await act(() => result.current.startSession(START));
+
+      rerender({ onMessage: second });
+      act(() => {
+        mock.emitMessage({ source: "agent", text: "Hello" });
+      });
+
+      expect(result.current.startSession).toBe(startSession);
+      expect(result.current.endSession).toBe(endSession);
+      expect(result.current.handoff).toBe(handoff);
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("reconnect", () => {
+    const reconnect = { maxAttempts: 2, initialDelayMs: 10, jitter: 0 };
+
+    it("reconnects after an unexpected disconnect", async () => {
+      const mock = createMockConversation();
+      const onReconnecting = jest.fn();
+      const onReconnected = jest.fn();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(mock, {
+        reconnect,
+        onReconnecting,
+        onReconnected,
+        onDisconnect,
+      });
+      await act(() => result.current.startSession(START));
+      act(() => {
+        mock.emitMessage({ id: "m1", source: "user", text: "Hello" });
+      });
+
+      act(() => mock.disconnect());
+      expect(result.current.status).toBe("reconnecting");
+
+      await waitFor(() => expect(onReconnected).toHaveBeenCalledTimes(1));
+      expect(result.current.status).toBe("connected");
+      expect(onReconnecting).toHaveBeenCalledWith({
+        attempt: 1,
+        maxAttempts: 2,
+        delayMs: 10,
+      });
+      expect(mock.calls.startSession).toHaveLength(2);
+      expect(onDisconnect).not.toHaveBeenCalled();
+      expect(result.current.messages.map((message) => message.id)).toEqual([
+        "m1",
+      ]);
+    });
+
+    it("ends the session when every attempt fails", async () => {
+      const mock = createMockConversation();
+      const onDisconnect = jest.fn();
+      const onError = jest.fn();
+      const { result } = renderConversation(
+        mock,
+        { reconnect, onDisconnect, onError },
+        createFailingFactory(mock, 1),
+      );
+      await act(() => result.current.startSession(START));
+
+      act(() => mock.disconnect());
+
+      await waitFor(() =>
+        expect(onDisconnect).toHaveBeenCalledWith({
+          reason: "reconnect_failed",
+        }),
+      );
+      expect(result.current.status).toBe("disconnected");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("closes the new connection when restoring the mute fails", async () => {
+      const mock = createMockConversation();
+      const endReconnected = jest.fn(async () => undefined);
+      let count = 0;
+      const factory: ConversationFactory = async (options) => {
+        const conversation = await mock.factory(options);
+        count += 1;
+        if (count > 1) {
+          conversation.setMicMuted = async () => {
+            throw new Error("mic busy");
+          };
+          conversation.endSession = endReconnected;
+        }
+        return conversation;
+      };
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(
+        mock,
+        { reconnect, onDisconnect },
+        factory,
+      );
+      await act(() => result.current.startSession(START));
+      await act(() => result.current.setMicMuted(true));
+
+      act(() => mock.disconnect());
+
+      await waitFor(() =>
+        expect(onDisconnect).toHaveBeenCalledWith({
+          reason: "reconnect_failed",
+        }),
+      );
+      expect(endReconnected).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("disconnected");
+    });
+
+    it("does not reconnect after endSession", async () => {
+      const mock = createMockConversation();
+      const onReconnecting = jest.fn();
+      const { result } = renderConversation(mock, {
+        reconnect,
+        onReconnecting,
+      });
+      await act(() => result.current.startSession(START));
+
+      await act(() => result.current.endSession());
+
+      expect(onReconnecting).not.toHaveBeenCalled();
+      expect(result.current.status).toBe("disconnected");
+    });
+  });
+
+  describe("lifecycle", () => {
+    it("cancels a connecting start when its signal aborts", async () => {
+      const mock = createMockConversation();
+      const { factory, release } = createGatedFactory(mock);
+      const onConnect = jest.fn();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(
+        mock,
+        { onConnect, onDisconnect },
+        factory,
+      );
+      const controller = new AbortController();
+
+      let start!: Promise<string>;
+      act(() => {
+        start = result.current.startSession({
+          ...START,
+          signal: controller.signal,
+        });
+      });
+      await waitFor(() => expect(mock.calls.startSession).toHaveLength(0));
+      controller.abort();
+      release();
+
+      await act(() => expectAborted(start));
+      expect(result.current.status).toBe("disconnected");
+      expect(mock.isActive()).toBe(false);
+      // The connection opened before the abort was seen, so it is closed like
+      // any other session.
+      expect(onConnect).toHaveBeenCalledTimes(1);
+      expect(onDisconnect).toHaveBeenCalledWith({ reason: "user" });
+    });
+
+    it("never connects with an already aborted signal", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock);
+      const controller = new AbortController();
+      controller.abort();
+
+      await act(() =>
+        expectAborted(
+          result.current.startSession({ ...START, signal: controller.signal }),
+        ),
+      );
+
+      expect(mock.calls.startSession).toHaveLength(0);
+      expect(result.current.status).toBe("disconnected");
+    });
+
+    it("cancels a connecting start on endSession", async () => {
+      const mock = createMockConversation();
+      const { factory, release } = createGatedFactory(mock);
+      const { result } = renderConversation(mock, {}, factory);
+
+      let start!: Promise<string>;
+      let end!: Promise<void>;
+      act(() => {
+        start = result.current.startSession(START);
+        end = result.current.endSession();
+      });
+      release();
+
+      await act(() => expectAborted(start));
+      await act(() => end);
+      expect(mock.isActive()).toBe(false);
+      expect(result.current.status).toBe("disconnected");
+    });
+
+    it("lets the latest of overlapping starts win", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock);
+
+      let first!: Promise<string>;
+      let second!: Promise<string>;
+      act(() => {
+        first = result.current.startSession(START);
+        second = result.current.startSession({ ...START, agentId: "agent_2" });
+      });
+
+      await act(() => expectAborted(first));
+      await act(() => second);
+      expect(mock.calls.startSession).toHaveLength(1);
+      expect(mock.lastStartOptions()?.agentId).toBe("agent_2");
+      expect(result.current.status).toBe("connected");
+    });
+
+    it("runs an end and a start in call order", async () => {
+      const mock = createMockConversation();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(mock, { onDisconnect });
+      await act(() => result.current.startSession(START));
+
+      await act(async () => {
+        const end = result.current.endSession();
+        const start = result.current.startSession(START);
+        await Promise.all([end, start]);
+      });
+
+      expect(mock.calls.endSession).toBe(1);
+      expect(mock.calls.startSession).toHaveLength(2);
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("connected");
+    });
+
+    it("ends the session when the component unmounts", async () => {
+      const mock = createMockConversation();
+      const { result, unmount } = renderConversation(mock);
+      await act(() => result.current.startSession(START));
+
+      unmount();
+
+      await waitFor(() => expect(mock.calls.endSession).toBe(1));
+      expect(mock.isActive()).toBe(false);
+    });
+
+    it("keeps the session on unmount with endSessionOnUnmount: false", async () => {
+      const mock = createMockConversation();
+      const { result, unmount } = renderConversation(mock, {
+        endSessionOnUnmount: false,
+      });
+      await act(() => result.current.startSession(START));
+
+      unmount();
+      await act(() => Promise.resolve());
+
+      expect(mock.calls.endSession).toBe(0);
+      expect(mock.isActive()).toBe(true);
+    });
+
+    it("opens a single session under StrictMode", async () => {
+      const mock = createMockConversation();
+      const statuses: string[] = [];
+
+      function AutoStart() {
+        const conversation = useConversation();
+        const { startSession } = conversation;
+        statuses.push(conversation.status);
+        useEffect(() => {
+          startSession(START).catch(() => undefined);
+        }, [startSession]);
+        return null;
+      }
+
+      render(
+        <StrictMode>
+          <MockConversationProvider conversation={mock}>
+            <AutoStart />
+          </MockConversationProvider>
+        </StrictMode>,
+      );
+
+      await waitFor(() => expect(statuses.at(-1)).toBe("connected"));
+      expect(mock.calls.startSession).toHaveLength(1);
+      expect(mock.isActive()).toBe(true);
+    });
+  });
+
+  describe("handoff", () => {
+    it("continues the transcript with the next agent", async () => {
+      const mock = createMockConversation();
+      const onAgentChange = jest.fn();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(mock, {
+        onAgentChange,
+        onDisconnect,
+      });
+      await act(() =>
+        result.current.startSession({
+          ...START,
+          dynamicVariables: { plan: "pro" },
+        }),
+      );
+      act(() => {
+        mock.emitMessage({ id: "m1", source: "user", text: "Billing help" });
+      });
+
+      await act(() =>
+        result.current.handoff({
+          agentId: "agent_2",
+          dynamicVariables: { topic: "billing" },
+        }),
+      );
+      act(() => {
+        mock.emitMessage({ id: "m2", source: "agent", text: "Billing here" });
+      });
+
+      expect(result.current.status).toBe("connected");
+      expect(result.current.agent).toEqual({ agentId: "agent_2" });
+      expect(mock.lastStartOptions()).toMatchObject({
+        agentId: "agent_2",
+        apiKey: "key",
+        dynamicVariables: { plan: "pro", topic: "billing" },
+      });
+      expect(mock.calls.sendContextualUpdate).toHaveLength(1);
+      expect(mock.calls.sendContextualUpdate[0]).toContain("Billing help");
+      expect(
+        result.current.messages.map(({ id, agentId }) => [id, agentId]),
+      ).toEqual([
+        ["m1", "agent_1"],
+        ["m2", "agent_2"],
+      ]);
+      expect(onAgentChange).toHaveBeenCalledWith({
+        from: { agentId: "agent_1" },
+        to: { agentId: "agent_2" },
+        carriedMessages: [expect.objectContaining({ id: "m1" })],
+      });
+      expect(onDisconnect).not.toHaveBeenCalled();
+    });
+
+    it("ends the session when the next agent cannot be reached", async () => {
+      const mock = createMockConversation();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(
+        mock,
+        { onDisconnect },
+        createFailingFactory(mock, 1),
+      );
+      await act(() => result.current.startSession(START));
+
+      await act(async () => {
+        await expect(
+          result.current.handoff({ agentId: "agent_2" }),
+        ).rejects.toThrow("connection refused");
+      });
+
+      expect(result.current.status).toBe("disconnected");
+      expect(onDisconnect).toHaveBeenCalledWith({ reason: "handoff_failed" });
+      // Nothing is left half-open for endSession to trip over.
+      await act(() => result.current.endSession());
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it("asks the token provider for credentials for the next agent", async () => {
+      const mock = createMockConversation();
+      const getToken = jest.fn(
+        async ({ agentId }: { agentId: string }) => `token_${agentId}`,
+      );
+      const { result } = renderConversation(mock);
+      await act(() =>
+        result.current.startSession({
+          agentId: "agent_1",
+          getToken,
+          serverUrl: "wss://example",
+        }),
+      );
+
+      await act(() =>
+        result.current.handoff({ agentId: "agent_2", agentVersion: "v2" }),
+      );
+
+      expect(getToken).toHaveBeenLastCalledWith({
+        agentId: "agent_2",
+        agentVersion: "v2",
+      });
+      expect(mock.lastStartOptions()).toMatchObject({
+        agentId: "agent_2",
+        connectionDetails: { participantToken: "token_agent_2" },
+      });
+    });
+
+    it("needs fresh auth to hand off a signed URL session", async () => {
+      const mock = createMockConversation();
+      const fetchMock = jest.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          serverUrl: "wss://example",
+          participantToken: "signed",
+        }),
+      }));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      const { result } = renderConversation(mock);
+      await act(() =>
+        result.current.startSession({
+          agentId: "agent_1",
+          signedUrl: "https://example/signed",
+        }),
+      );
+
+      await act(async () => {
+        await expect(
+          result.current.handoff({ agentId: "agent_2" }),
+        ).rejects.toMatchObject({ code: "auth_invalid" });
+      });
+      expect(result.current.status).toBe("connected");
+      expect(mock.calls.endSession).toBe(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await act(() =>
+        result.current.handoff({ agentId: "agent_2", auth: { apiKey: "key" } }),
+      );
+      expect(mock.lastStartOptions()).toMatchObject({
+        agentId: "agent_2",
+        apiKey: "key",
+      });
+    });
+
+    it("rejects without a session", async () => {
+      const mock = createMockConversation();
+      const { result } = renderConversation(mock);
+
+      await act(async () => {
+        await expect(
+          result.current.handoff({ agentId: "agent_2" }),
+        ).rejects.toMatchObject({ code: "invalid_state" });
+      });
+    });
+  });
+
+  describe("persistence", () => {
+    it("restores a stored conversation and keeps its start time", async () => {
+      const storage = createLocalStorageAdapter();
+      const startedAt = Date.now() - 60_000;
+      await storage.set({
+        id: "conv_1",
+        agentId: "agent_1",
+        startedAt,
+        updatedAt: startedAt,
+        messages: [
+          {
+            id: "old",
+            source: "user",
+            text: "Earlier",
+            isFinal: true,
+            timestamp: startedAt + 1000,
+          },
+        ],
+      });
+      const mock = createMockConversation({ conversationId: "conv_1" });
+      const { result } = renderConversation(mock, { persistence: storage });
+
+      await act(() => result.current.startSession(START));
+      act(() => {
+        mock.emitMessage({ id: "new", source: "agent", text: "Welcome back" });
+      });
+
+      expect(result.current.messages.map((message) => message.id)).toEqual([
+        "old",
+        "new",
+      ]);
+      await waitFor(async () => {
+        const stored = await storage.get("conv_1");
+        expect(stored?.messages).toHaveLength(2);
+        expect(stored?.startedAt).toBe(startedAt);
+      });
+      const transcript = JSON.parse(result.current.exportTranscript("json"));
+      expect(transcript.sessionStartedAt).toBe(startedAt);
+      expect(transcript.messages[0]).toMatchObject({
+        id: "old",
+        offsetMs: 1000,
+      });
+    });
+  });
+
+  describe("session limits", () => {
+    it("warns and then ends an idle session", async () => {
+      const mock = createMockConversation();
+      const onSessionWarning = jest.fn();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(mock, {
+        idleTimeoutMs: 60,
+        sessionWarningMs: 30,
+        onSessionWarning,
+        onDisconnect,
+      });
+      await act(() => result.current.startSession(START));
+
+      await waitFor(() =>
+        expect(onDisconnect).toHaveBeenCalledWith({ reason: "idle_timeout" }),
+      );
+      expect(onSessionWarning).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "idle_timeout" }),
+      );
+      expect(result.current.status).toBe("disconnected");
+    });
+
+    it("starts the limits over after a handoff", async () => {
+      const mock = createMockConversation();
+      const onSessionWarning = jest.fn();
+      const onDisconnect = jest.fn();
+      const { result } = renderConversation(mock, {
+        maxDurationMs: 150,
+        sessionWarningMs: 100,
+        onSessionWarning,
+        onDisconnect,
+      });
+      await act(() => result.current.startSession(START));
+      await waitFor(() => expect(onSessionWarning).toHaveBeenCalledTimes(1));
+
+      await act(() => result.current.handoff({ agentId: "agent_2" }));
+
+      await waitFor(() =>
+        expect(onDisconnect).toHaveBeenCalledWith({ reason: "max_duration" }),
+      );
+      // The new agent got its own warning and full duration.
+      expect(onSessionWarning).toHaveBeenCalledTimes(2);
+      expect(result.current.agent).toEqual({ agentId: "agent_2" });
+    });
+  });
+
+  describe("recording", () => {
+    // Replaces the MediaRecorder-backed recorder with one the test settles.
+    function mockRecorder() {
+      let settle!: {
+        resolve: (audio: recordingModule.RecordedAudio) => void;
+        reject: (error: unknown) => void;
+      };
+      const done = new Promise<recordingModule.RecordedAudio>(
+        (resolve, reject) => {
+          settle = { resolve, reject };
+        },
+      );
+      const stop = jest.fn(() => {
+        settle.resolve({
+          blob: new Blob(["audio"]),
+          mimeType: "audio/webm",
+          source: "input",
+          startedAt: 1000,
+          endedAt: 2000,
+          durationMs: 1000,
+          truncated: false,
+        });
+        return done;
+      });
+      jest
+        .spyOn(recordingModule, "startRecorder")
+        .mockReturnValue({ startedAt: 1000, stop, done });
+      return { stop, fail: (error: unknown) => settle.reject(error) };
+    }
+
+    it("tracks the recording from start to stop", async () => {
+      const mock = createMockConversation();
+      const recorder = mockRecorder();
+      const onRecordingComplete = jest.fn();
+      const { result } = renderConversation(mock, { onRecordingComplete });
+      await act(() => result.current.startSession(START));
+
+      act(() => result.current.startRecording({ source: "input" }));
+      expect(result.current.isRecording).toBe(true);
+
+      let recording: recordingModule.ConversationRecording | undefined;
+      await act(async () => {
+        recording = await result.current.stopRecording();
+      });
+
+      expect(recorder.stop).toHaveBeenCalled();
+      expect(recording).toMatchObject({ durationMs: 1000, timeline: [] });
+      expect(onRecordingComplete).toHaveBeenCalledWith(recording);
+      expect(result.current.isRecording).toBe(false);
+    });
+
+    it("reports a failed recorder and allows a new recording", async () => {
+      const mock = createMockConversation();
+      const recorder = mockRecorder();
+      const onError = jest.fn();
+      const { result } = renderConversation(mock, { onError });
+      await act(() => result.current.startSession(START));
+      act(() => result.current.startRecording());
+
+      await act(async () => recorder.fail(new Error("encoder crashed")));
+
+      expect(onError).toHaveBeenCalledWith(expect.any(VoxError));
+      expect(result.current.isRecording).toBe(false);
+      await expect(result.current.stopRecording()).resolves.toBeUndefined();
+      mockRecorder();
+      act(() => result.current.startRecording());
+      expect(result.current.isRecording).toBe(true);
+    });
+  });
+});
@@ -1,114 +1,986 @@
-import {
-  Conversation,
-  type ConversationMessage,
-  type ConversationMode,
-  type ConversationSource,
-  type ConversationStatus,
-  type InputDeviceConfig,
-  type OutputDeviceConfig,
-  type SetVolumeParams,
-  type StartSessionOptions,
+import type {
+  ConversationMessage,
+  ConversationMode,
+  ConversationSource,
+  ConversationStatus as ClientConversationStatus,
+  InputDeviceConfig,
+  OutputDeviceConfig,
+  SetVolumeParams,
+  StartSessionOptions,
 } from "@vox-ai/client";
-import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+import {
+  ConversationFactoryContext,
+  getConversationCapabilities,
+  type ConversationCapabilities,
+  type ConversationLike,
+} from "../context/ConversationFactoryContext";
+import { MicrophonePermissionContext } from "../context/MicrophonePermissionContext";
+import {
+  getTokenExpiry,
+  omitAuth,
+  resolveSessionAuth,
+  scheduleTokenRefresh,
+  type ConnectionDetails,
+  type ResolvedSessionAuth,
+  type SessionAuth,
+} from "../utils/auth";
+import {
+  DEFAULT_CLIENT_TOOL_TIMEOUT_MS,
+  runClientTool,
+  type ClientToolCall,
+  type ClientToolCallRecord,
+  type ClientTools,
+} from "../utils/clientTools";
+import {
+  DEFAULT_DEVICE_ID,
+  listMediaDevices,
+  loadDevicePreferences,
+  pickAvailableDevice,
+  type MediaDeviceOption,
+} from "../utils/mediaDevices";
+import {
+  AuthError,
+  MicrophonePermissionError,
+  toVoxError,
+  VoxError,
+} from "../utils/errors";
+import {
+  createMessageStore,
+  type ConversationMessageStore,
+} from "../utils/messageStore";
+import {
+  createMetricsTracker,
+  type ConversationMetrics,
+  type MetricsTracker,
+  type SessionStats,
+} from "../utils/metrics";
+import type { MicrophonePermission } from "../utils/permissions";
+import {
+  createSystemMessage,
+  isConversationMessage,
+  mergeDynamicVariables,
+  serializeContextualUpdate,
+  type ContextualUpdate,
+  type DynamicVariables,
+} from "../utils/contextUpdates";
+import {
+  buildHandoffContext,
+  selectCarriedMessages,
+  type AgentChange,
+  type AgentRef,
+  type HandoffOptions,
+} from "../utils/handoff";
+import {
+  parseDtmfDigits,
+  resolveDtmfInterval,
+  type DtmfOptions,
+} from "../utils/dtmf";
+import {
+  buildRecordingTimeline,
+  startRecorder,
+  type ConversationRecording,
+  type RecordingOptions,
+} from "../utils/recording";
+import {
+  bindHoldGesture,
+  bindHotkey,
+  resolvePushToTalkOptions,
+  type PushToTalkOptions,
+} from "../utils/pushToTalk";
+import type {
+  ConversationStorageAdapter,
+  StoredConversationSummary,
+} from "../utils/persistence";
+import {
+  resolveReconnectOptions,
+  retryWithBackoff,
+  type ReconnectingInfo,
+  type ReconnectOptions,
+} from "../utils/reconnect";
+import { createEventEmitter, rethrowAsync } from "../utils/events";
+import {
+  createSessionLimits,
+  DEFAULT_SESSION_WARNING_MS,
+  type DisconnectDetails,
+  type SessionEndReason,
+  type SessionLimits,
+  type SessionWarning,
+} from "../utils/sessionLimits";
+import {
+  exportTranscript as serializeTranscript,
+  type ExportTranscriptOptions,
+  type TranscriptFormat,
+} from "../utils/transcript";
 
-type HookCallbacks = Pick<
-  StartSessionOptions,
-  | "onConnect"
-  | "onDisconnect"
-  | "onError"
-  | "onMessage"
-  | "onStatusChange"
-  | "onModeChange"
->;
+export type ConversationStatus =
+  ClientConversationStatus | "requesting-permission" | "reconnecting";
+
+type HookCallbacks = Pick<StartSessionOptions, "onConnect" | "onModeChange"> & {
+  onMessage?: (message: ConversationEventMap["message"]) => void;
+  onDisconnect?: (details: DisconnectDetails) => void;
+  onStatusChange?: (status: ConversationStatus) => void;
+  onError?: (error: VoxError) => void;
+};
 
 export type UseConversationOptions = HookCallbacks & {
   textOnly?: boolean;
+  clientTools?: ClientTools;
+  clientToolTimeoutMs?: number;
+  reconnect?: boolean | ReconnectOptions;
+  persistence?: ConversationStorageAdapter;
+  onReconnecting?: (info: ReconnectingInfo) => void;
+  onReconnected?: () => void;
+  onMetrics?: (metrics: ConversationMetrics) => void;
+  pushToTalk?: boolean | PushToTalkOptions;
+  /**
+   * 연결되면 자동으로 녹음을 시작합니다. 결과는 `onRecordingComplete`로 전달됩니다.
+   * Client가 지원하는 경우(`capabilities.recording`)에만 동작합니다.
+   */
+  recording?: boolean | RecordingOptions;
+  onRecordingComplete?: (recording: ConversationRecording) => void;
+  /** 마지막 사용자 발화/메시지나 agent mode 변경 후 이 시간 동안 활동이 없으면 session 종료 */
+  idleTimeoutMs?: number;
+  /** 연결 후 이 시간이 지나면 session 종료 */
+  maxDurationMs?: number;
+  /** 자동 종료 몇 ms 전에 `onSessionWarning`을 호출할지 (default: `30000`) */
+  sessionWarningMs?: number;
+  onSessionWarning?: (warning: SessionWarning) => void;
+  /** 이 hook을 사용하는 component가 unmount될 때 session을 종료할지 여부 (default: `true`) */
+  endSessionOnUnmount?: boolean;
+  /** `handoff()`로 다른 agent로 전환될 때마다 호출 */
+  onAgentChange?: (change: AgentChange) => void;
+  /** `sendContextualUpdate`/`updateDynamicVariables`로 보낸 context를 `source: "system"` 항목으로 `messages`에 추가 (default: `false`) */
+  showContextUpdates?: boolean;
+};
+
+/** `on(event, handler)`와 `useConversationEvent`로 구독할 수 있는 event와 payload */
+export type ConversationEventMap = {
+  connect: undefined;
+  disconnect: DisconnectDetails;
+  status: ConversationStatus;
+  mode: ConversationMode;
+  /** `messages`에 추가된 것과 같은, `agentId`가 붙은 메시지 */
+  message: ConversationMessage & { agentId?: string };
+  error: VoxError;
+  /** Agent가 client tool을 호출함 */
+  toolCall: ClientToolCallRecord;
+  /** Client tool 실행이 끝남 (`result`, `isError`, `completedAt` 포함) */
+  toolResult: ClientToolCallRecord;
 };
 
+export type ConversationEvent = keyof ConversationEventMap;
+
+// Events that also have a callback option, called before `on` subscribers.
+const EVENT_CALLBACKS: Partial<Record<ConversationEvent, keyof HookCallbacks>> =
+  {
+    connect: "onConnect",
+    disconnect: "onDisconnect",
+    status: "onStatusChange",
+    mode: "onModeChange",
+    message: "onMessage",
+    error: "onError",
+  };
+
 export type StartConversationOptions = Omit<
   StartSessionOptions,
-  keyof HookCallbacks
->;
+  keyof HookCallbacks | "apiKey" | "onClientToolCall"
+> &
+  SessionAuth & {
+    /** Abort되면 연결 중인 `startSession`을 취소하고 `aborted` 에러로 reject */
+    signal?: AbortSignal;
+  };
+
+export type UseConversationResult = ReturnType<typeof useConversation>;
 
 export function useConversation(options: UseConversationOptions = {}) {
-  const conversationRef = useRef<Conversation | null>(null);
-  const messageMapRef = useRef<Map<string, ConversationMessage>>(new Map());
+  const startConversation = useContext(ConversationFactoryContext);
+  const microphonePermission = useContext(MicrophonePermissionContext);
+  const conversationRef = useRef<ConversationLike | null>(null);
+  // Messages live outside React state so selectors can subscribe to just the
+  // slice they render (see `useConversationSelector` and `useMessage`).
+  const [messageStore] = useState(createMessageStore);
+  // Options are read at call time, so a session started with an earlier
+  // render's options still reaches the latest callbacks and tools, and inline
+  // options don't give the returned methods a new identity every render.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [events] = useState(() => {
+    const emitter = createEventEmitter<ConversationEventMap>((err, event) => {
+      // A failing `error` listener would only fail again if routed back.
+      if (event === "error") {
+        rethrowAsync(err);
+        return;
+      }
+      const error = toVoxError(err);
+      optionsRef.current.onError?.(error);
+      emitter.emit("error", error);
+    });
+    return emitter;
+  });
+  const connectionDetailsRef = useRef<ConnectionDetails | null>(null);
+  const cancelTokenRefreshRef = useRef<(() => void) | null>(null);
+  const generationRef = useRef(0);
+  const endRequestedRef = useRef(false);
+  const reconnectingRef = useRef(false);
+  const sessionStartedAtRef = useRef<number | undefined>(undefined);
+  const conversationIdRef = useRef<string | undefined>(undefined);
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const metricsRef = useRef<MetricsTracker | null>(null);
+  const talkingRef = useRef(false);
+  const recordingRef = useRef<Promise<
+    ConversationRecording | undefined
+  > | null>(null);
+  const stopRecorderRef = useRef<(() => void) | null>(null);
+  const autoRecordedGenerationRef = useRef(-1);
+  const dtmfQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const dynamicVariablesRef = useRef<DynamicVariables>({});
+  const sessionParamsRef = useRef<StartConversationOptions | null>(null);
+  const sessionLimitsRef = useRef<SessionLimits | null>(null);
+  const limitsGenerationRef = useRef(-1);
+  const endReasonRef = useRef<SessionEndReason | null>(null);
+  // Starts, ends and handoffs run one at a time in call order, so two quick
+  // clicks can't open two connections side by side.
+  const lifecycleRef = useRef<Promise<unknown>>(Promise.resolve());
+  const pendingStartRef = useRef<AbortController | null>(null);
+  // Connections replaced by a handoff; their late events must not touch state.
+  const retiredRef = useRef(new WeakSet<ConversationLike>());
 
   const [status, setStatus] = useState<ConversationStatus>("disconnected");
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [micMuted, setMicMutedState] = useState(false);
-  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [agent, setAgent] = useState<AgentRef | undefined>(undefined);
+  // The generation whose connection is open. A handoff can go from connected
+  // to connected in one render, so per-session effects key on this instead of
+  // on status alone, and wait until it catches up with `generationRef`.
+  const [sessionGeneration, setSessionGeneration] = useState(0);
+  const [capabilities, setCapabilities] = useState(() =>
+    getConversationCapabilities(null),
+  );
 
-  const startSession = useCallback(
-    async (params: StartConversationOptions): Promise<string> => {
-      if (conversationRef.current) {
-        await conversationRef.current.endSession();
+  const enqueue = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const run = lifecycleRef.current.then(task, task);
+    lifecycleRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  const emit = useCallback(
+    <K extends ConversationEvent>(
+      event: K,
+      payload: ConversationEventMap[K],
+    ) => {
+      const callbackName = EVENT_CALLBACKS[event];
+      const callback = callbackName
+        ? (optionsRef.current[callbackName] as
+            ((payload: ConversationEventMap[K]) => void) | undefined)
+        : undefined;
+      callback?.(payload);
+      events.emit(event, payload);
+    },
+    [events],
+  );
+  const messages = useSyncExternalStore(
+    messageStore.subscribe,
+    messageStore.getSnapshot,
+    messageStore.getSnapshot,
+  );
+  const [toolCalls, setToolCalls] = useState<ClientToolCallRecord[]>([]);
+  const [permission, setPermission] = useState<MicrophonePermission>("prompt");
+
+  useEffect(() => {
+    let cancelled = false;
+    void microphonePermission.check().then((current) => {
+      if (!cancelled) setPermission(current);
+    });
+    const unsubscribe = microphonePermission.subscribe(setPermission);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [microphonePermission]);
+
+  const stopTokenRefresh = useCallback(() => {
+    cancelTokenRefreshRef.current?.();
+    cancelTokenRefreshRef.current = null;
+    connectionDetailsRef.current = null;
+  }, []);
+
+  const persistMessages = useCallback(
+    (agentId?: string) => {
+      const storage = optionsRef.current.persistence;
+      const conversationId = conversationIdRef.current;
+      if (!storage || !conversationId) return;
+
+      // System entries are local notes about what was sent, not transcript.
+      const finalMessages = messageStore
+        .getSnapshot()
+        .filter(isConversationMessage)
+        .filter((message) => message.isFinal);
+      const startedAt = sessionStartedAtRef.current ?? Date.now();
+
+      // Writes are chained so a slow write never overwrites a newer one.
+      persistQueueRef.current = persistQueueRef.current
+        .then(() =>
+          storage.set({
+            id: conversationId,
+            agentId,
+            startedAt,
+            updatedAt: Date.now(),
+            messages: finalMessages,
+          }),
+        )
+        .catch((err) => {
+          emit("error", toVoxError(err));
+        });
+    },
+    [emit, messageStore],
+  );
+
+  const restoreMessages = useCallback(
+    async (conversationId: string): Promise<boolean> => {
+      const storage = optionsRef.current.persistence;
+      if (!storage) return false;
+
+      const stored = await storage.get(conversationId);
+      if (!stored) return false;
+
+      messageStore.merge(stored.messages);
+      // A resumed conversation began when it was first stored, so offsets of
+      // the restored messages (and later writes) keep that start time.
+      sessionStartedAtRef.current = Math.min(
+        sessionStartedAtRef.current ?? stored.startedAt,
+        stored.startedAt,
+      );
+      return true;
+    },
+    [messageStore],
+  );
+
+  // Devices picked through `useMediaDevices` are remembered across sessions
+  // and re-applied to every new connection, including reconnects.
+  const applyDevicePreferences = useCallback(
+    async (conversation: ConversationLike) => {
+      const { inputDeviceId, outputDeviceId } = loadDevicePreferences();
+      if (!inputDeviceId && !outputDeviceId) return;
+
+      try {
+        const { inputs, outputs } = await listMediaDevices();
+        // The session already starts on the default devices, and a device
+        // that is no longer plugged in is skipped.
+        const shouldApply = (
+          devices: MediaDeviceOption[],
+          deviceId: string | undefined,
+        ): deviceId is string =>
+          deviceId !== undefined &&
+          deviceId !== DEFAULT_DEVICE_ID &&
+          pickAvailableDevice(devices, deviceId) === deviceId;
+
+        if (shouldApply(inputs, inputDeviceId)) {
+          await conversation.changeInputDevice({ inputDeviceId });
+        }
+        if (shouldApply(outputs, outputDeviceId)) {
+          await conversation.changeOutputDevice({ outputDeviceId });
+        }
+      } catch (err) {
+        emit("error", toVoxError(err));
+      }
+    },
+    [emit],
+  );
+
+  const callClientTool = useCallback(
+    async (call: ClientToolCall) => {
+      const isCall = (record: ClientToolCallRecord) =>
+        record.toolCallId === call.toolCallId;
+      const started: ClientToolCallRecord = { ...call, startedAt: Date.now() };
+      setToolCalls((current) => [
+        ...current.filter((record) => !isCall(record)),
+        started,
+      ]);
+      emit("toolCall", started);
+
+      const result = await runClientTool(
+        optionsRef.current.clientTools,
+        call,
+        optionsRef.current.clientToolTimeoutMs ??
+          DEFAULT_CLIENT_TOOL_TIMEOUT_MS,
+        (error) => emit("error", error),
+      );
+
+      const completed: ClientToolCallRecord = {
+        ...started,
+        completedAt: Date.now(),
+        result: result.result,
+        isError: result.isError,
+      };
+      setToolCalls((current) =>
+        current.map((record) => (isCall(record) ? completed : record)),
+      );
+      emit("toolResult", completed);
+      return result;
+    },
+    [emit],
+  );
+
+  // A handoff continues the transcript of the session it replaces, so only a
+  // fresh start clears messages and tool calls.
+  const openSession = useCallback(
+    async (
+      params: StartConversationOptions,
+      {
+        continueTranscript,
+        signal,
+      }: { continueTranscript: boolean; signal?: AbortSignal },
+    ): Promise<string> => {
+      const throwIfAborted = () => {
+        if (!signal?.aborted) return;
+        setStatus("disconnected");
+        emit("status", "disconnected");
+        throw new VoxError("aborted", "startSession was aborted");
+      };
+      // A start superseded while it waited in the queue leaves the current
+      // session alone.
+      if (signal?.aborted) {
+        throw new VoxError("aborted", "startSession was aborted");
+      }
+
+      const previous = conversationRef.current;
+      if (previous) {
+        endRequestedRef.current = true;
+        endReasonRef.current = "user";
+        if (continueTranscript) retiredRef.current.add(previous);
+        await previous.endSession();
         conversationRef.current = null;
       }
+      stopTokenRefresh();
 
-      messageMapRef.current = new Map();
-      setMessages([]);
+      const generation = ++generationRef.current;
+      endRequestedRef.current = false;
+      endReasonRef.current = null;
+      reconnectingRef.current = false;
+      conversationIdRef.current = undefined;
+      sessionParamsRef.current = params;
+      dynamicVariablesRef.current = { ...params.dynamicVariables };
+      setAgent({ agentId: params.agentId, agentVersion: params.agentVersion });
+      if (!continueTranscript) {
+        sessionStartedAtRef.current = Date.now();
+        messageStore.reset();
+        setToolCalls([]);
+      }
 
-      const conversation = await Conversation.startSession({
-        ...params,
-        textOnly: params.textOnly ?? options.textOnly,
-        onConnect: () => {
-          setStatus("connected");
-          options.onConnect?.();
-        },
-        onDisconnect: () => {
+      const reconnectOptions = resolveReconnectOptions(
+        optionsRef.current.reconnect,
+      );
+      const textOnly = params.textOnly ?? optionsRef.current.textOnly;
+
+      const shouldReconnect = (instance: ConversationLike | null) =>
+        reconnectOptions !== null &&
+        instance !== null &&
+        conversationRef.current === instance &&
+        !endRequestedRef.current;
+
+      const open = async (auth: ResolvedSessionAuth) => {
+        let instance: ConversationLike | null = null;
+        const isRetired = () =>
+          instance !== null && retiredRef.current.has(instance);
+
+        instance = await startConversation({
+          ...omitAuth(params),
+          ...auth,
+          // Reconnects pick up variables changed during the session.
+          dynamicVariables: dynamicVariablesRef.current,
+          textOnly,
+          onConnect: () => {
+            if (reconnectingRef.current || isRetired()) return;
+            metrics.connected();
+            setStatus("connected");
+            emit("connect", undefined);
+          },
+          onDisconnect: () => {
+            if (reconnectingRef.current || isRetired()) return;
+            if (shouldReconnect(instance)) {
+              void reconnect(instance as ConversationLike);
+              return;
+            }
+            // A late event from a connection that was already replaced.
+            if (instance && conversationRef.current !== instance) return;
+
+            stopTokenRefresh();
+            metrics.ended();
+            setStatus("disconnected");
+            setIsSpeaking(false);
+            emit("disconnect", {
+              reason: endReasonRef.current ?? "remote",
+            });
+          },
+          onError: (error) => {
+            if (isRetired()) return;
+            emit("error", toVoxError(error));
+          },
+          onMessage: (message) => {
+            if (isRetired()) return;
+            metrics.messageReceived(message);
+            if (message.source === "user") sessionLimitsRef.current?.activity();
+            const tagged = { ...message, agentId: params.agentId };
+            messageStore.upsert(tagged);
+            if (message.isFinal) persistMessages(params.agentId);
+            emit("message", tagged);
+          },
+          onStatusChange: (nextStatus) => {
+            if (reconnectingRef.current || isRetired()) return;
+            if (nextStatus === "disconnected" && shouldReconnect(instance)) {
+              return;
+            }
+            setStatus(nextStatus);
+            emit("status", nextStatus);
+          },
+          onModeChange: (mode) => {
+            if (isRetired()) return;
+            metrics.modeChanged(mode);
+            sessionLimitsRef.current?.activity();
+            setIsSpeaking(mode === "speaking");
+            emit("mode", mode);
+          },
+          onClientToolCall: callClientTool,
+        });
+
+        if (!textOnly) {
+          await applyDevicePreferences(instance);
+          // Push-to-talk keeps the mic closed until the user holds the key.
+          if (optionsRef.current.pushToTalk && !talkingRef.current) {
+            await instance.setMicMuted(true);
+          }
+        }
+        return instance;
+      };
+
+      // Reuse the cached connection details while their token is still valid;
+      // otherwise ask the token provider (or the API key flow) again.
+      const resolveReconnectAuth = async (): Promise<ResolvedSessionAuth> => {
+        const cached = connectionDetailsRef.current;
+        if (cached) {
+          const expiresAt = getTokenExpiry(cached.participantToken);
+          if (expiresAt === undefined || expiresAt > Date.now()) {
+            return { connectionDetails: cached };
+          }
+        }
+        return resolveSessionAuth(params);
+      };
+
+      const reconnect = async (dropped: ConversationLike) => {
+        if (!reconnectOptions) return;
+
+        const wasMuted = dropped.getMicMuted();
+        reconnectingRef.current = true;
+        setIsSpeaking(false);
+        setStatus("reconnecting");
+        emit("status", "reconnecting");
+
+        const isCancelled = () =>
+          generation !== generationRef.current || endRequestedRef.current;
+
+        try {
+          const next = await retryWithBackoff(
+            async () => open(await resolveReconnectAuth()),
+            reconnectOptions,
+            {
+              onAttempt: (info) => optionsRef.current.onReconnecting?.(info),
+              isCancelled,
+            },
+          );
+          if (!next) return;
+          if (isCancelled()) {
+            await next.endSession();
+            return;
+          }
+
+          // Restore the mute before adopting `next`, so a failure leaves no
+          // open connection behind.
+          if (wasMuted) {
+            try {
+              await next.setMicMuted(true);
+            } catch (err) {
+              await next.endSession().catch(() => undefined);
+              throw err;
+            }
+          }
+          conversationRef.current = next;
+          reconnectingRef.current = false;
+
+          setStatus(next.getStatus());
+          setMicMutedState(next.getMicMuted());
+          setIsSpeaking(next.getMode() === "speaking");
+          emit("status", next.getStatus());
+          metrics.reconnected();
+          optionsRef.current.onReconnected?.();
+        } catch (err) {
+          if (isCancelled()) return;
+          reconnectingRef.current = false;
+          conversationRef.current = null;
+          stopTokenRefresh();
+          metrics.ended();
           setStatus("disconnected");
           setIsSpeaking(false);
-          options.onDisconnect?.();
-        },
-        onError: (error) => {
-          options.onError?.(error);
-        },
-        onMessage: (message) => {
-          messageMapRef.current.set(message.id, message);
-          setMessages(
-            Array.from(messageMapRef.current.values()).sort(
-              (a, b) => a.timestamp - b.timestamp,
-            ),
-          );
-          options.onMessage?.(message);
-        },
-        onStatusChange: (nextStatus) => {
-          setStatus(nextStatus);
-          options.onStatusChange?.(nextStatus);
-        },
-        onModeChange: (mode) => {
-          setIsSpeaking(mode === "speaking");
-          options.onModeChange?.(mode);
-        },
-      });
+          emit("status", "disconnected");
+          emit("error", toVoxError(err));
+          emit("disconnect", { reason: "reconnect_failed" });
+        }
+      };
+
+      if (!textOnly) {
+        // Ask up front so a denied prompt is reported as such instead of as a
+        // generic connection failure from deep inside the client.
+        let current = await microphonePermission.check();
+        if (current !== "granted") {
+          setStatus("requesting-permission");
+          emit("status", "requesting-permission");
+          current = await microphonePermission.request();
+        }
+        setPermission(current);
+        if (current !== "granted") {
+          setStatus("disconnected");
+          emit("status", "disconnected");
+          throw new MicrophonePermissionError(current);
+        }
+      }
+      throwIfAborted();
+
+      // Timings start once the permission prompt is out of the way, so
+      // `timeToConnectMs` covers auth and the connection but not the user.
+      const metrics = createMetricsTracker((event) =>
+        optionsRef.current.onMetrics?.(event),
+      );
+      metricsRef.current = metrics;
+
+      let auth: ResolvedSessionAuth;
+      let conversation: ConversationLike;
+      try {
+        auth = await resolveSessionAuth(params);
+        throwIfAborted();
+        conversation = await open(auth);
+      } catch (err) {
+        throw toVoxError(err);
+      }
 
       conversationRef.current = conversation;
+      if (signal?.aborted) {
+        // Ended like any other session, so a `connect` already delivered is
+        // matched by a `disconnect`.
+        endRequestedRef.current = true;
+        endReasonRef.current = "user";
+        await conversation.endSession();
+        conversationRef.current = null;
+        throwIfAborted();
+      }
+      if (conversation.getStatus() === "connected") metrics.connected();
+      setSessionGeneration(generation);
+      // Only a reconnect uses the cached details; the live connection keeps
+      // its token, so there is nothing to refresh without one.
+      if ("connectionDetails" in auth && reconnectOptions) {
+        connectionDetailsRef.current = auth.connectionDetails;
+        cancelTokenRefreshRef.current = scheduleTokenRefresh(
+          params,
+          auth.connectionDetails,
+          (details) => {
+            connectionDetailsRef.current = details;
+          },
+          (error) => emit("error", toVoxError(error)),
+        );
+      }
       setStatus(conversation.getStatus());
       setMicMutedState(conversation.getMicMuted());
       setIsSpeaking(conversation.getMode() === "speaking");
 
-      return conversation.getId() ?? "";
+      const conversationId = conversation.getId();
+      conversationIdRef.current = conversationId;
+      if (conversationId && optionsRef.current.persistence) {
+        try {
+          await restoreMessages(conversationId);
+        } catch (err) {
+          emit("error", toVoxError(err));
+        }
+        persistMessages(params.agentId);
+      }
+
+      return conversationId ?? "";
     },
-    [options],
+    [
+      emit,
+      applyDevicePreferences,
+      callClientTool,
+      microphonePermission,
+      persistMessages,
+      messageStore,
+      restoreMessages,
+      startConversation,
+      stopTokenRefresh,
+    ],
   );
+  const startSession = useCallback(
+    ({ signal, ...params }: StartConversationOptions) => {
+      // The latest start wins; one still connecting is cancelled.
+      pendingStartRef.current?.abort();
+      const controller = new AbortController();
+      pendingStartRef.current = controller;
+      const abort = () => controller.abort();
+      if (signal?.aborted) abort();
+      signal?.addEventListener("abort", abort, { once: true });
 
-  const endSession = useCallback(async () => {
-    if (!conversationRef.current) return;
-    await conversationRef.current.endSession();
-    conversationRef.current = null;
-    setStatus("disconnected");
-    setIsSpeaking(false);
+      return enqueue(() =>
+        openSession(params, {
+          continueTranscript: false,
+          signal: controller.signal,
+        }),
+      ).finally(() => {
+        signal?.removeEventListener("abort", abort);
+        if (pendingStartRef.current === controller) {
+          pendingStartRef.current = null;
+        }
+      });
+    },
+    [enqueue, openSession],
+  );
+
+  const handoff = useCallback(
+    ({
+      agentId,
+      agentVersion,
+      carryMessages,
+      carryDynamicVariables = true,
+      dynamicVariables,
+      auth,
+    }: HandoffOptions): Promise<string> =>
+      enqueue(async () => {
+        const params = sessionParamsRef.current;
+        if (!params || !conversationRef.current) {
+          throw new VoxError(
+            "invalid_state",
+            "A handoff needs an active session to hand off from",
+          );
+        }
+        // Checked before the outgoing connection is closed, so the current
+        // agent stays connected.
+        if (!auth && "signedUrl" in params) {
+          throw new AuthError(
+            "A signed URL can only be used once: pass fresh auth to handoff()",
+          );
+        }
+
+        const from: AgentRef = {
+          agentId: params.agentId,
+          agentVersion: params.agentVersion,
+        };
+        const to: AgentRef = { agentId, agentVersion };
+        const carriedMessages = selectCarriedMessages(
+          messageStore.getSnapshot(),
+          carryMessages,
+        );
+
+        // The outgoing agent's recording and stats cover only its own segment.
+        stopRecorderRef.current?.();
+        metricsRef.current?.ended();
+
+        let conversationId: string;
+        try {
+          conversationId = await openSession(
+            {
+              ...(auth ? { ...omitAuth(params), ...auth } : params),
+              agentId,
+              agentVersion,
+              dynamicVariables: {
+                ...(carryDynamicVariables ? dynamicVariablesRef.current : {}),
+                ...dynamicVariables,
+              },
+            },
+            { continueTranscript: true },
+          );
+        } catch (err) {
+          // The outgoing connection was closed without its own events, so the
+          // session ends here instead of staying "connected" with no client.
+          conversationRef.current = null;
+          stopTokenRefresh();
+          setStatus("disconnected");
+          setIsSpeaking(false);
+          setMicMutedState(false);
+          emit("status", "disconnected");
+          emit("disconnect", { reason: "handoff_failed" });
+          throw err;
+        }
+
+        const conversation = conversationRef.current as ConversationLike | null;
+        if (carriedMessages.length > 0 && conversation?.sendContextualUpdate) {
+          try {
+            await conversation.sendContextualUpdate(
+              buildHandoffContext(carriedMessages, from),
+            );
+          } catch (err) {
+            emit("error", toVoxError(err));
+          }
+        }
+
+        optionsRef.current.onAgentChange?.({ from, to, carriedMessages });
+        return conversationId;
+      }),
+    [emit, enqueue, messageStore, openSession, stopTokenRefresh],
+  );
+
+  const endSessionWithReason = useCallback(
+    async (reason: SessionEndReason) => {
+      stopTokenRefresh();
+      stopRecorderRef.current?.();
+      metricsRef.current?.ended();
+      sessionLimitsRef.current?.stop();
+      endRequestedRef.current = true;
+      endReasonRef.current = reason;
+      if (reconnectingRef.current) {
+        reconnectingRef.current = false;
+        conversationRef.current = null;
+        setStatus("disconnected");
+        setIsSpeaking(false);
+        emit("disconnect", { reason });
+        return;
+      }
+      if (!conversationRef.current) return;
+      await conversationRef.current.endSession();
+      conversationRef.current = null;
+      setStatus("disconnected");
+      setIsSpeaking(false);
+    },
+    [emit, stopTokenRefresh],
+  );
+
+  const endSession = useCallback(() => {
+    pendingStartRef.current?.abort();
+    return enqueue(() => endSessionWithReason("user"));
+  }, [endSessionWithReason, enqueue]);
+
+  // Limits start once per session (a handoff counts as a new one, through
+  // `sessionGeneration`) and keep running while reconnecting, so a tab that
+  // never comes back still ends.
+  useEffect(() => {
+    if (status === "disconnected") {
+      sessionLimitsRef.current?.stop();
+      sessionLimitsRef.current = null;
+      return;
+    }
+    const { idleTimeoutMs, maxDurationMs, sessionWarningMs } =
+      optionsRef.current;
+    if (
+      status !== "connected" ||
+      sessionGeneration !== generationRef.current ||
+      limitsGenerationRef.current === sessionGeneration ||
+      (idleTimeoutMs === undefined && maxDurationMs === undefined)
+    ) {
+      return;
+    }
+    limitsGenerationRef.current = sessionGeneration;
+    sessionLimitsRef.current?.stop();
+    sessionLimitsRef.current = createSessionLimits(
+      {
+        idleTimeoutMs,
+        maxDurationMs,
+        warningMs: sessionWarningMs ?? DEFAULT_SESSION_WARNING_MS,
+      },
+      {
+        onWarning: (warning) => optionsRef.current.onSessionWarning?.(warning),
+        onExpire: (reason) => {
+          enqueue(() => endSessionWithReason(reason)).catch((err) =>
+            emit("error", toVoxError(err)),
+          );
+        },
+      },
+    );
+  }, [emit, endSessionWithReason, enqueue, sessionGeneration, status]);
+
+  // Leaving the page section that owns the conversation shouldn't leave the
+  // mic open. Nothing here marks the hook as unmounted for good: StrictMode's
+  // simulated unmount just cancels a start made by the first effect pass, and
+  // the start from the second pass goes through the queue after it.
+  const endSessionRef = useRef(endSession);
+  endSessionRef.current = endSession;
+  useEffect(
+    () => () => {
+      sessionLimitsRef.current?.stop();
+      if (optionsRef.current.endSessionOnUnmount === false) return;
+      endSessionRef.current().catch((err) => emit("error", toVoxError(err)));
+    },
+    [emit],
+  );
+
+  const extendSession = useCallback((extraMs?: number) => {
+    sessionLimitsRef.current?.extend(extraMs);
   }, []);
 
   const getId = useCallback(() => {
     return conversationRef.current?.getId();
   }, []);
 
+  const getSessionStats = useCallback((): SessionStats | undefined => {
+    return metricsRef.current?.getStats();
+  }, []);
+
   const getMessages = useCallback(() => {
     return conversationRef.current?.getMessages() ?? messages;
   }, [messages]);
 
+  const exportTranscript = useCallback(
+    (
+      format: TranscriptFormat,
+      exportOptions: Omit<ExportTranscriptOptions, "format"> = {},
+    ) =>
+      serializeTranscript(messageStore.getSnapshot(), {
+        sessionStartedAt: sessionStartedAtRef.current,
+        ...exportOptions,
+        format,
+      }),
+    [messageStore],
+  );
+
+  const loadStoredConversation = useCallback(
+    async (conversationId: string): Promise<boolean> => {
+      if (conversationRef.current) {
+        throw new VoxError(
+          "invalid_state",
+          "Cannot load a stored conversation during a session",
+        );
+      }
+      messageStore.reset();
+      sessionStartedAtRef.current = undefined;
+      conversationIdRef.current = conversationId;
+      return restoreMessages(conversationId);
+    },
+    [messageStore, restoreMessages],
+  );
+
+  const listStoredConversations = useCallback(async (): Promise<
+    StoredConversationSummary[]
+  > => {
+    return optionsRef.current.persistence?.list() ?? [];
+  }, []);
+
+  const clearStoredConversation = useCallback(
+    async (conversationId: string) => {
+      await optionsRef.current.persistence?.remove(conversationId);
+    },
+    [],
+  );
+
+  const requestMicrophonePermission = useCallback(async () => {
+    const result = await microphonePermission.request();
+    setPermission(result);
+    return result;
+  }, [microphonePermission]);
+
   const setVolume = useCallback((volume: { volume: number }) => {
     conversationRef.current?.setVolume(volume);
   }, []);
@@ -119,11 +991,298 @@ export function useConversation(options: UseConversationOptions = {}) {
     setMicMutedState(conversationRef.current.getMicMuted());
   }, []);
 
+  const startTalking = useCallback(async () => {
+    const conversation = conversationRef.current;
+    if (!optionsRef.current.pushToTalk || !conversation || talkingRef.current)
+      return;
+    talkingRef.current = true;
+    setIsTalking(true);
+    await conversation.setMicMuted(false);
+    setMicMutedState(conversation.getMicMuted());
+  }, []);
+
+  const stopTalking = useCallback(async () => {
+    const pushToTalk = resolvePushToTalkOptions(optionsRef.current.pushToTalk);
+    if (!pushToTalk || !talkingRef.current) return;
+    talkingRef.current = false;
+    setIsTalking(false);
+
+    const conversation = conversationRef.current;
+    if (!conversation) return;
+    await conversation.setMicMuted(true);
+    setMicMutedState(conversation.getMicMuted());
+    if (pushToTalk.signalTurnEnd) await conversation.endUserTurn?.();
+  }, []);
+
+  // Gesture listeners outlive renders, so they go through a ref instead of
+  // re-binding (and releasing a held key) whenever the handlers change.
+  const talkHandlersRef = useRef({ startTalking, stopTalking });
+  talkHandlersRef.current = { startTalking, stopTalking };
+
+  const handleTalkStart = useCallback(() => {
+    const { startTalking } = talkHandlersRef.current;
+    startTalking().catch((err) => emit("error", toVoxError(err)));
+  }, [emit]);
+
+  const handleTalkStop = useCallback(() => {
+    const { stopTalking } = talkHandlersRef.current;
+    stopTalking().catch((err) => emit("error", toVoxError(err)));
+  }, [emit]);
+
+  const bindPushToTalk = useCallback(
+    (element: HTMLElement) =>
+      bindHoldGesture(element, handleTalkStart, handleTalkStop),
+    [handleTalkStart, handleTalkStop],
+  );
+
+  const hotkey = resolvePushToTalkOptions(options.pushToTalk)?.hotkey;
+
+  useEffect(() => {
+    if (status !== "connected" || !hotkey) return;
+    return bindHotkey(hotkey, handleTalkStart, handleTalkStop);
+  }, [handleTalkStart, handleTalkStop, hotkey, status]);
+
+  useEffect(() => {
+    if (status === "connected" || status === "reconnecting") return;
+    talkingRef.current = false;
+    setIsTalking(false);
+  }, [status]);
+
+  const startRecording = useCallback(
+    (recordingOptions?: RecordingOptions) => {
+      const conversation = conversationRef.current;
+      if (!conversation || conversation.getStatus() !== "connected") {
+        throw new VoxError(
+          "invalid_state",
+          "Recording can only start during a connected session",
+        );
+      }
+      if (recordingRef.current) {
+        throw new VoxError("invalid_state", "A recording is already running");
+      }
+
+      const recorder = startRecorder(
+        {
+          input: conversation.getInputMediaStream?.(),
+          output: conversation.getOutputMediaStream?.(),
+        },
+        recordingOptions,
+      );
+      stopRecorderRef.current = () => void recorder.stop();
+      setIsRecording(true);
+
+      // Caps stop the recorder on their own, so completion is handled here
+      // rather than in `stopRecording`.
+      const finish = () => {
+        recordingRef.current = null;
+        stopRecorderRef.current = null;
+        setIsRecording(false);
+      };
+      const recording = recorder.done.then(
+        (audio) => {
+          const result: ConversationRecording = {
+            ...audio,
+            timeline: buildRecordingTimeline(messageStore.getSnapshot(), audio),
+          };
+          finish();
+          optionsRef.current.onRecordingComplete?.(result);
+          return result;
+        },
+        (err) => {
+          // Auto-recordings have no caller to reject to, so failures go
+          // through `onError` and `stopRecording` resolves empty.
+          finish();
+          emit("error", toVoxError(err));
+          return undefined;
+        },
+      );
+      recordingRef.current = recording;
+    },
+    [emit, messageStore],
+  );
+
+  const stopRecording = useCallback(async (): Promise<
+    ConversationRecording | undefined
+  > => {
+    const recording = recordingRef.current;
+    if (!recording) return undefined;
+    stopRecorderRef.current?.();
+    return recording;
+  }, []);
+
+  useEffect(() => {
+    // Auto-record once per session, so a manual stop isn't undone.
+    const { recording } = optionsRef.current;
+    if (
+      status !== "connected" ||
+      !recording ||
+      sessionGeneration !== generationRef.current ||
+      autoRecordedGenerationRef.current === sessionGeneration
+    ) {
+      return;
+    }
+    autoRecordedGenerationRef.current = sessionGeneration;
+    try {
+      startRecording(recording === true ? undefined : recording);
+    } catch (err) {
+      emit("error", toVoxError(err));
+    }
+  }, [emit, sessionGeneration, startRecording, status]);
+
+  // The tracks end with the session; finish the file while they still exist.
+  useEffect(() => {
+    if (status === "disconnected") void stopRecording();
+  }, [status, stopRecording]);
+
   const sendUserMessage = useCallback(async (text: string) => {
     if (!conversationRef.current) return;
+    sessionLimitsRef.current?.activity();
     await conversationRef.current.sendUserMessage(text);
   }, []);
 
+  const sendDtmf = useCallback(
+    (digits: string, dtmfOptions: DtmfOptions = {}): Promise<void> => {
+      const send = async () => {
+        const sequence = parseDtmfDigits(digits);
+        const intervalMs = resolveDtmfInterval(dtmfOptions.intervalMs);
+        const conversation = conversationRef.current;
+        if (!conversation || conversation.getStatus() !== "connected") {
+          throw new VoxError(
+            "invalid_state",
+            "DTMF can only be sent during a connected session",
+          );
+        }
+        if (!conversation.sendDtmf) {
+          throw new VoxError(
+            "invalid_state",
+            "This conversation client does not support DTMF",
+          );
+        }
+
+        const generation = generationRef.current;
+        const sentAt = Date.now();
+        sessionLimitsRef.current?.activity();
+        for (const [index, digit] of sequence.entries()) {
+          // Stop mid-sequence if the session ended or was replaced.
+          if (
+            generation !== generationRef.current ||
+            conversationRef.current !== conversation
+          ) {
+            throw new VoxError(
+              "invalid_state",
+              "The session ended before all DTMF digits were sent",
+            );
+          }
+          if (index > 0 && intervalMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, intervalMs));
+          }
+          await conversation.sendDtmf(digit);
+        }
+
+        if (dtmfOptions.addToMessages) {
+          messageStore.upsert({
+            id: `dtmf-${sentAt}-${Math.random().toString(36).slice(2, 8)}`,
+            source: "user",
+            text: digits,
+            timestamp: sentAt,
+            isFinal: true,
+            agentId: sessionParamsRef.current?.agentId,
+          });
+        }
+      };
+
+      // Sequences are queued so two quick calls never interleave their digits.
+      const result = dtmfQueueRef.current.then(send).catch((err) => {
+        const error = toVoxError(err);
+        emit("error", error);
+        throw error;
+      });
+      dtmfQueueRef.current = result.catch(() => undefined);
+      return result;
+    },
+    [emit, messageStore],
+  );
+
+  const requireConnectedSession = useCallback(() => {
+    const conversation = conversationRef.current;
+    if (!conversation || conversation.getStatus() !== "connected") {
+      throw new VoxError(
+        "invalid_state",
+        "Context can only be sent during a connected session",
+      );
+    }
+    return conversation;
+  }, []);
+
+  const sendContextualUpdate = useCallback(
+    async (update: ContextualUpdate) => {
+      try {
+        const text = serializeContextualUpdate(update);
+        const conversation = requireConnectedSession();
+        if (!conversation.sendContextualUpdate) {
+          throw new VoxError(
+            "invalid_state",
+            "This conversation client does not support contextual updates",
+          );
+        }
+        await conversation.sendContextualUpdate(text);
+        if (optionsRef.current.showContextUpdates) {
+          messageStore.upsert(
+            createSystemMessage(
+              "contextual_update",
+              text,
+              sessionParamsRef.current?.agentId,
+            ),
+          );
+        }
+      } catch (err) {
+        const error = toVoxError(err);
+        emit("error", error);
+        throw error;
+      }
+    },
+    [emit, messageStore, requireConnectedSession],
+  );
+
+  const updateDynamicVariables = useCallback(
+    async (variables: DynamicVariables) => {
+      try {
+        const merged = mergeDynamicVariables(
+          dynamicVariablesRef.current,
+          variables,
+        );
+        const conversation = requireConnectedSession();
+        if (!conversation.updateDynamicVariables) {
+          throw new VoxError(
+            "invalid_state",
+            "This conversation client does not support updating dynamic variables",
+          );
+        }
+        await conversation.updateDynamicVariables(variables);
+        dynamicVariablesRef.current = merged;
+        if (optionsRef.current.showContextUpdates) {
+          messageStore.upsert(
+            createSystemMessage(
+              "dynamic_variables",
+              JSON.stringify(variables),
+              sessionParamsRef.current?.agentId,
+            ),
+          );
+        }
+      } catch (err) {
+        const error = toVoxError(err);
+        emit("error", error);
+        throw error;
+      }
+    },
+    [emit, messageStore, requireConnectedSession],
+  );
+
+  const getDynamicVariables = useCallback(
+    (): DynamicVariables => ({ ...dynamicVariablesRef.current }),
+    [],
+  );
+
   const changeInputDevice = useCallback(async (config: InputDeviceConfig) => {
     if (!conversationRef.current) return false;
     return conversationRef.current.changeInputDevice(config);
@@ -150,15 +1309,46 @@ export function useConversation(options: UseConversationOptions = {}) {
     return conversationRef.current?.getOutputByteFrequencyData();
   }, []);
 
+  // Read off the open connection, so a reconnect or handoff that lands on a
+  // different client is reflected.
+  useEffect(() => {
+    const next = getConversationCapabilities(
+      status === "connected" ? conversationRef.current : null,
+    );
+    setCapabilities((current) => {
+      const keys = Object.keys(next) as (keyof ConversationCapabilities)[];
+      return keys.every((key) => current[key] === next[key]) ? current : next;
+    });
+  }, [sessionGeneration, status]);
+
   return useMemo(
     () => ({
       startSession,
+      handoff,
       endSession,
+      extendSession,
+      on: events.on,
+      off: events.off,
       getId,
+      getSessionStats,
       getMessages,
+      exportTranscript,
+      loadStoredConversation,
+      listStoredConversations,
+      clearStoredConversation,
+      requestMicrophonePermission,
       setVolume,
       setMicMuted,
+      startTalking,
+      stopTalking,
+      bindPushToTalk,
+      startRecording,
+      stopRecording,
       sendUserMessage,
+      sendDtmf,
+      sendContextualUpdate,
+      updateDynamicVariables,
+      getDynamicVariables,
       changeInputDevice,
       changeOutputDevice,
       getInputVolume,
@@ -166,18 +1356,43 @@ export function useConversation(options: UseConversationOptions = {}) {
       getInputByteFrequencyData,
       getOutputByteFrequencyData,
       messages,
+      messageStore: messageStore as ConversationMessageStore,
+      toolCalls,
       status,
       isSpeaking,
       micMuted,
+      isTalking,
+      isRecording,
+      agent,
+      permission,
+      capabilities,
     }),
     [
       startSession,
+      handoff,
       endSession,
+      extendSession,
+      events,
       getId,
+      getSessionStats,
       getMessages,
+      exportTranscript,
+      loadStoredConversation,
+      listStoredConversations,
+      clearStoredConversation,
+      requestMicrophonePermission,
       setVolume,
       setMicMuted,
+      startTalking,
+      stopTalking,
+      bindPushToTalk,
+      startRecording,
+      stopRecording,
       sendUserMessage,
+      sendDtmf,
+      sendContextualUpdate,
+      updateDynamicVariables,
+      getDynamicVariables,
       changeInputDevice,
       changeOutputDevice,
       getInputVolume,
@@ -185,18 +1400,104 @@ export function useConversation(options: UseConversationOptions = {}) {
       getInputByteFrequencyData,
       getOutputByteFrequencyData,
       messages,
+      messageStore,
+      toolCalls,
       status,
       isSpeaking,
       micMuted,
+      isTalking,
+      isRecording,
+      agent,
+      permission,
+      capabilities,
     ],
   );
 }
 
+export type {
+  ClientToolCall,
+  ClientToolCallRecord,
+  ClientToolHandler,
+  ClientToolParameters,
+  ClientToolResult,
+  ClientTools,
+} from "../utils/clientTools";
+
+export type { ReconnectingInfo, ReconnectOptions } from "../utils/reconnect";
+
+export type { MicrophonePermission } from "../utils/permissions";
+
+export type { PushToTalkOptions } from "../utils/pushToTalk";
+
+export type { DtmfOptions } from "../utils/dtmf";
+
+export type { ConversationCapabilities } from "../context/ConversationFactoryContext";
+
+export type {
+  DisconnectDetails,
+  SessionEndReason,
+  SessionLimitReason,
+  SessionWarning,
+} from "../utils/sessionLimits";
+
+export type { AgentChange, AgentRef, HandoffOptions } from "../utils/handoff";
+
+export type {
+  ContextualUpdate,
+  ConversationEntry,
+  DynamicVariables,
+  SystemMessage,
+} from "../utils/contextUpdates";
+
+export type {
+  ConversationRecording,
+  RecordingOptions,
+  RecordingSource,
+  RecordingTimelineEntry,
+} from "../utils/recording";
+
+export type { ConversationMessageStore } from "../utils/messageStore";
+
+export type {
+  ConversationMetrics,
+  SessionStats,
+  TurnMetrics,
+} from "../utils/metrics";
+
+export type {
+  MicrophonePermissionErrorCode,
+  VoxErrorCode,
+  VoxErrorOptions,
+} from "../utils/errors";
+
+export type {
+  ConversationStorageAdapter,
+  IndexedDbAdapterOptions,
+  LocalStorageAdapterOptions,
+  StoredConversation,
+  StoredConversationSummary,
+} from "../utils/persistence";
+
+export type {
+  ExportTranscriptOptions,
+  TranscriptFormat,
+  TranscriptMessage,
+} from "../utils/transcript";
+
+export type {
+  ApiKeyAuth,
+  AuthRequest,
+  ConnectionDetails,
+  ConnectionDetailsAuth,
+  SessionAuth,
+  SignedUrlAuth,
+  TokenAuth,
+} from "../utils/auth";
+
 export type {
   ConversationMessage,
   ConversationMode,
   ConversationSource,
-  ConversationStatus,
   InputDeviceConfig,
   OutputDeviceConfig,
   SetVolumeParams,
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import {
+  useConversationEventSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import type {
+  ConversationEvent,
+  ConversationEventMap,
+} from "./useConversation";
+
+export type UseConversationEventOptions = ConversationSourceProps;
+
+/**
+ * Conversation event를 구독합니다. 항상 마지막 render의 `handler`가 호출되므로
+ * inline 함수를 넘겨도 구독이 다시 만들어지지 않습니다.
+ *
+ * @example
+ * ```tsx
+ * useConversationEvent("message", (message) => {
+ *   if (message.isFinal) analytics.track("message", { source: message.source });
+ * });
+ *
+ * useConversationEvent("disconnect", ({ reason }) => {
+ *   if (reason === "idle_timeout") showToast("대화가 종료되었습니다");
+ * });
+ * ```
+ */
+export function useConversationEvent<K extends ConversationEvent>(
+  event: K,
+  handler: (payload: ConversationEventMap[K]) => void,
+  { conversation }: UseConversationEventOptions = {},
+): void {
+  const { on } = useConversationEventSource(
+    conversation,
+    "useConversationEvent",
+  );
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => on(event, (payload) => handlerRef.current(payload)),
+    [event, on],
+  );
+}
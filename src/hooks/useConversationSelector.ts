@@ -0,0 +1,59 @@
+import { useCallback } from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+import { useSyncExternalStoreWithSelector } from "use-sync-external-store/shim/with-selector";
+import {
+  useMessageStoreSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import type { ConversationEntry } from "./useConversation";
+
+export type UseConversationSelectorOptions<T> = ConversationSourceProps & {
+  /** 이전 값과 같다고 판단되면 re-render하지 않음 (default: `Object.is`) */
+  isEqual?: (a: T, b: T) => boolean;
+};
+
+/**
+ * 메시지 목록에서 필요한 값만 골라 구독합니다.
+ * 선택한 값이 바뀔 때만 re-render되므로 streaming 중에도 다른 component에 영향이 없습니다.
+ *
+ * @example
+ * ```tsx
+ * const count = useConversationSelector((messages) => messages.length);
+ * const lastAgentId = useConversationSelector(
+ *   (messages) => messages.findLast((m) => m.source === "agent")?.id,
+ * );
+ * ```
+ */
+export function useConversationSelector<T>(
+  selector: (messages: ConversationEntry[]) => T,
+  { conversation, isEqual }: UseConversationSelectorOptions<T> = {},
+): T {
+  const store = useMessageStoreSource(conversation, "useConversationSelector");
+  return useSyncExternalStoreWithSelector(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot,
+    selector,
+    isEqual,
+  );
+}
+
+/**
+ * 메시지 하나를 구독합니다. 해당 메시지가 바뀔 때만 re-render됩니다.
+ *
+ * @example
+ * ```tsx
+ * function MessageRow({ id }: { id: string }) {
+ *   const message = useMessage(id);
+ *   return <li>{message?.text}</li>;
+ * }
+ * ```
+ */
+export function useMessage(
+  id: string,
+  { conversation }: ConversationSourceProps = {},
+): ConversationEntry | undefined {
+  const store = useMessageStoreSource(conversation, "useMessage");
+  const getMessage = useCallback(() => store.getMessage(id), [store, id]);
+  return useSyncExternalStore(store.subscribe, getMessage, getMessage);
+}
@@ -0,0 +1,75 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { VoxError } from "../utils/errors";
+import type { UseConversationResult } from "./useConversation";
+import { useMediaDevices } from "./useMediaDevices";
+
+function device(deviceId: string): MediaDeviceInfo {
+  return {
+    deviceId,
+    groupId: "group",
+    kind: "audioinput",
+    label: deviceId,
+  } as MediaDeviceInfo;
+}
+
+function installMediaDevices() {
+  const enumerateDevices = jest.fn<Promise<MediaDeviceInfo[]>, []>();
+  const mediaDevices = Object.assign(new EventTarget(), { enumerateDevices });
+  Object.defineProperty(navigator, "mediaDevices", {
+    value: mediaDevices,
+    configurable: true,
+  });
+  const unplug = () => mediaDevices.dispatchEvent(new Event("devicechange"));
+  return { enumerateDevices, unplug };
+}
+
+afterEach(() => {
+  Object.defineProperty(navigator, "mediaDevices", {
+    value: undefined,
+    configurable: true,
+  });
+});
+
+describe("useMediaDevices", () => {
+  it("reports a failed device listing to onError", async () => {
+    const { enumerateDevices } = installMediaDevices();
+    enumerateDevices.mockRejectedValue(
+      Object.assign(new Error("Device busy"), { name: "NotReadableError" }),
+    );
+    const onError = jest.fn();
+
+    renderHook(() => useMediaDevices({ persist: false, onError }));
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(VoxError);
+    expect(onError.mock.calls[0][0].code).toBe("device_error");
+  });
+
+  it("reports a failed switch away from an unplugged device", async () => {
+    const { enumerateDevices, unplug } = installMediaDevices();
+    enumerateDevices.mockResolvedValue([device("default"), device("usb")]);
+    const changeInputDevice = jest.fn().mockResolvedValue(true);
+    const conversation = {
+      status: "connected",
+      changeInputDevice,
+    } as unknown as UseConversationResult;
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useMediaDevices({ conversation, persist: false, onError }),
+    );
+    await waitFor(() => expect(result.current.inputs).toHaveLength(2));
+    await act(() => result.current.selectInput("usb"));
+
+    enumerateDevices.mockResolvedValue([device("default")]);
+    changeInputDevice.mockRejectedValue(new Error("switch failed"));
+    act(() => {
+      unplug();
+    });
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(changeInputDevice).toHaveBeenLastCalledWith({
+      inputDeviceId: "default",
+    });
+    expect(result.current.inputs).toHaveLength(1);
+  });
+});
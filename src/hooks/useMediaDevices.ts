@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useOptionalConversationContext } from "../context/ConversationProvider";
+import { toVoxError, type VoxError } from "../utils/errors";
+import {
+  listMediaDevices,
+  loadDevicePreferences,
+  pickAvailableDevice,
+  saveDevicePreferences,
+  subscribeDevicePreferences,
+  supportsMediaDevices,
+  supportsOutputSelection,
+  type DevicePreferences,
+  type MediaDeviceOption,
+} from "../utils/mediaDevices";
+import type { UseConversationResult } from "./useConversation";
+
+export type UseMediaDevicesOptions = {
+  /** `useConversation()` 결과. 생략하면 가장 가까운 `ConversationProvider`를 사용 (없어도 동작) */
+  conversation?: UseConversationResult;
+  /** 선택한 디바이스를 저장하고 다음 `startSession`에 자동 적용할지 여부 (default: `true`) */
+  persist?: boolean;
+  /** 디바이스 목록 조회나 분리된 디바이스의 대체 전환이 실패했을 때 호출 */
+  onError?: (error: VoxError) => void;
+};
+
+export type UseMediaDevicesResult = {
+  inputs: MediaDeviceOption[];
+  /** 출력 디바이스 선택을 지원하지 않는 브라우저에서는 빈 배열 */
+  outputs: MediaDeviceOption[];
+  /** 현재 사용 중인 입력 디바이스. 선택한 디바이스가 분리되면 기본 디바이스로 대체됨 */
+  activeInputId?: string;
+  /** 현재 사용 중인 출력 디바이스. 선택한 디바이스가 분리되면 기본 디바이스로 대체됨 */
+  activeOutputId?: string;
+  /** 브라우저가 디바이스 이름을 공개했는지 여부 (마이크 권한 필요) */
+  hasLabels: boolean;
+  /** `setSinkId` 지원 여부 */
+  canSelectOutput: boolean;
+  /** `navigator.mediaDevices` 지원 여부 */
+  isSupported: boolean;
+  selectInput: (deviceId: string) => Promise<boolean>;
+  selectOutput: (deviceId: string) => Promise<boolean>;
+  /** 마이크 권한을 요청해 디바이스 이름을 받아옵니다 */
+  requestLabels: () => Promise<boolean>;
+  refresh: () => Promise<void>;
+};
+
+type DeviceLists = {
+  inputs: MediaDeviceOption[];
+  outputs: MediaDeviceOption[];
+  hasLabels: boolean;
+};
+
+const EMPTY_DEVICES: DeviceLists = {
+  inputs: [],
+  outputs: [],
+  hasLabels: false,
+};
+
+function isListed(devices: MediaDeviceOption[], deviceId: string | undefined) {
+  return devices.some((device) => device.deviceId === deviceId);
+}
+
+/**
+ * 오디오 입출력 디바이스 목록과 선택 상태를 관리합니다.
+ *
+ * @remarks
+ * 디바이스 연결/분리(`devicechange`)를 감지해 목록을 갱신하고, 통화 중 선택한
+ * 디바이스가 분리되면 기본 디바이스로 전환합니다. `persist`가 켜져 있으면
+ * 선택이 저장되어 이후 `startSession`마다 자동으로 적용됩니다.
+ *
+ * @example
+ * ```tsx
+ * const { inputs, activeInputId, selectInput } = useMediaDevices();
+ *
+ * <select value={activeInputId} onChange={(e) => selectInput(e.target.value)}>
+ *   {inputs.map((device) => (
+ *     <option key={device.deviceId} value={device.deviceId}>
+ *       {device.label}
+ *     </option>
+ *   ))}
+ * </select>
+ * ```
+ */
+export function useMediaDevices({
+  conversation,
+  persist = true,
+  onError,
+}: UseMediaDevicesOptions = {}): UseMediaDevicesResult {
+  const fromContext = useOptionalConversationContext();
+  const source = conversation ?? fromContext;
+  const status = source?.status ?? "disconnected";
+  const changeInputDevice = source?.changeInputDevice;
+  const changeOutputDevice = source?.changeOutputDevice;
+
+  const [devices, setDevices] = useState<DeviceLists>(EMPTY_DEVICES);
+  const [preferences, setPreferences] = useState<DevicePreferences>({});
+  const [isSupported, setIsSupported] = useState(false);
+  const [canSelectOutput, setCanSelectOutput] = useState(false);
+
+  const devicesRef = useRef(devices);
+  devicesRef.current = devices;
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+  const sessionRef = useRef({ status, changeInputDevice, changeOutputDevice });
+  sessionRef.current = { status, changeInputDevice, changeOutputDevice };
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // Runs on `devicechange` with nobody awaiting it, so failures are reported
+  // through `onError` instead of rejecting.
+  const refresh = useCallback(async () => {
+    try {
+      const next = await listMediaDevices();
+      const previous = devicesRef.current;
+      devicesRef.current = next;
+      setDevices(next);
+
+      // Move a live session off a device that was just unplugged.
+      const session = sessionRef.current;
+      if (session.status !== "connected") return;
+      const { inputDeviceId, outputDeviceId } = preferencesRef.current;
+      const unplugged = (
+        key: "inputs" | "outputs",
+        deviceId: string | undefined,
+      ) => isListed(previous[key], deviceId) && !isListed(next[key], deviceId);
+
+      if (unplugged("inputs", inputDeviceId)) {
+        const fallback = pickAvailableDevice(next.inputs, undefined);
+        if (fallback) {
+          await session.changeInputDevice?.({ inputDeviceId: fallback });
+        }
+      }
+      if (unplugged("outputs", outputDeviceId)) {
+        const fallback = pickAvailableDevice(next.outputs, undefined);
+        if (fallback) {
+          await session.changeOutputDevice?.({ outputDeviceId: fallback });
+        }
+      }
+    } catch (err) {
+      onErrorRef.current?.(toVoxError(err));
+    }
+  }, []);
+
+  // Browser-only state is read after mount so server and client renders match.
+  useEffect(() => {
+    if (!supportsMediaDevices()) return;
+    setIsSupported(true);
+    setCanSelectOutput(supportsOutputSelection());
+    if (persist) setPreferences(loadDevicePreferences());
+
+    const handleDeviceChange = () => {
+      void refresh();
+    };
+    void refresh();
+    navigator.mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    const unsubscribe = persist
+      ? subscribeDevicePreferences(setPreferences)
+      : undefined;
+
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        handleDeviceChange,
+      );
+      unsubscribe?.();
+    };
+  }, [persist, refresh]);
+
+  const updatePreferences = useCallback(
+    (update: DevicePreferences) => {
+      if (persist) saveDevicePreferences(update);
+      else setPreferences((current) => ({ ...current, ...update }));
+    },
+    [persist],
+  );
+
+  const selectInput = useCallback(
+    async (inputDeviceId: string) => {
+      const session = sessionRef.current;
+      if (session.status === "connected" && session.changeInputDevice) {
+        const changed = await session.changeInputDevice({ inputDeviceId });
+        if (!changed) return false;
+      }
+      updatePreferences({ inputDeviceId });
+      return true;
+    },
+    [updatePreferences],
+  );
+
+  const selectOutput = useCallback(
+    async (outputDeviceId: string) => {
+      if (!supportsOutputSelection()) return false;
+      const session = sessionRef.current;
+      if (session.status === "connected" && session.changeOutputDevice) {
+        const changed = await session.changeOutputDevice({ outputDeviceId });
+        if (!changed) return false;
+      }
+      updatePreferences({ outputDeviceId });
+      return true;
+    },
+    [updatePreferences],
+  );
+
+  const requestLabels = useCallback(async () => {
+    if (!supportsMediaDevices()) return false;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: true,
+      });
+      stream.getTracks().forEach((track) => track.stop());
+    } catch {
+      return false;
+    }
+    await refresh();
+    return true;
+  }, [refresh]);
+
+  const activeInputId = pickAvailableDevice(
+    devices.inputs,
+    preferences.inputDeviceId,
+  );
+  const activeOutputId = pickAvailableDevice(
+    devices.outputs,
+    preferences.outputDeviceId,
+  );
+
+  return useMemo(
+    () => ({
+      ...devices,
+      activeInputId,
+      activeOutputId,
+      canSelectOutput,
+      isSupported,
+      selectInput,
+      selectOutput,
+      requestLabels,
+      refresh,
+    }),
+    [
+      devices,
+      activeInputId,
+      activeOutputId,
+      canSelectOutput,
+      isSupported,
+      selectInput,
+      selectOutput,
+      requestLabels,
+      refresh,
+    ],
+  );
+}
+
+export type { MediaDeviceOption } from "../utils/mediaDevices";
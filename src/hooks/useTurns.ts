@@ -0,0 +1,42 @@
+import { useMemo } from "react";
+import {
+  useConversationSource,
+  type ConversationSourceProps,
+} from "../context/ConversationProvider";
+import { groupTurns, type ConversationTurn } from "../utils/turns";
+
+export type UseTurnsOptions = ConversationSourceProps;
+
+/**
+ * `messages`를 사용자/agent 턴 단위로 묶어 반환합니다.
+ *
+ * @remarks
+ * 같은 화자의 연속된 메시지는 하나의 턴으로 합쳐지고, 턴 동안 실행된 client tool
+ * 호출(`toolCalls`)과 끼어들기 여부(`interrupted`)가 함께 제공됩니다.
+ *
+ * @example
+ * ```tsx
+ * const turns = useTurns();
+ *
+ * turns.map((turn) => (
+ *   <Bubble key={turn.id} role={turn.role} dimmed={turn.interrupted}>
+ *     {turn.text}
+ *   </Bubble>
+ * ));
+ * ```
+ */
+export function useTurns({
+  conversation,
+}: UseTurnsOptions = {}): ConversationTurn[] {
+  const { messages, toolCalls, isSpeaking, getSessionStats } =
+    useConversationSource(conversation, "useTurns");
+
+  // `isSpeaking` also flips when an agent speaking span closes, which is when
+  // the session stats gain the span used for end times and interruptions.
+  return useMemo(
+    () => groupTurns(messages, toolCalls, getSessionStats()?.turns, isSpeaking),
+    [messages, toolCalls, isSpeaking, getSessionStats],
+  );
+}
+
+export type { ConversationTurn } from "../utils/turns";
@@ -0,0 +1,62 @@
+import { act, renderHook } from "@testing-library/react";
+import React from "react";
+import {
+  createMockConversation,
+  type MockConversation,
+} from "../testing/createMockConversation";
+import { MockConversationProvider } from "../testing/MockConversationProvider";
+import { useVoxAI, type VoxAIOptions } from "./useVoxAI";
+
+function renderVoxAI(mock: MockConversation, options: VoxAIOptions = {}) {
+  const wrapper = ({ children }: { children?: React.ReactNode }) => (
+    <MockConversationProvider conversation={mock}>
+      {children}
+    </MockConversationProvider>
+  );
+  return renderHook(() => useVoxAI(options), { wrapper });
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("useVoxAI", () => {
+  it("reports finished client tool calls as tool messages", async () => {
+    const mock = createMockConversation();
+    const onMessage = jest.fn();
+    const { result } = renderVoxAI(mock, { onMessage });
+    await act(() =>
+      result.current.connect({ agentId: "agent_1", apiKey: "key" }),
+    );
+    act(() => {
+      mock.emitMessage({ id: "m1", source: "user", text: "Look it up" });
+    });
+
+    await act(async () => {
+      await mock.callTool("lookup", { id: 1 });
+    });
+
+    const tool = {
+      name: "tool",
+      isFinal: true,
+      tool: expect.objectContaining({
+        type: "function_tools_executed",
+        function_calls: [
+          expect.objectContaining({ name: "lookup", arguments: { id: 1 } }),
+        ],
+        function_call_outputs: [
+          expect.objectContaining({ name: "lookup", is_error: true }),
+        ],
+      }),
+    };
+    expect(onMessage).toHaveBeenLastCalledWith(expect.objectContaining(tool));
+    expect(result.current.messages).toEqual([
+      expect.objectContaining({ name: "user", message: "Look it up" }),
+      expect.objectContaining(tool),
+    ]);
+  });
+});
@@ -0,0 +1,799 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { toFrequencyBars } from "../utils/audio";
+import type { ConnectionDetails, SessionAuth } from "../utils/auth";
+import type { ClientToolCallRecord } from "../utils/clientTools";
+import type { ConversationEntry } from "../utils/contextUpdates";
+import { AuthError, toVoxError, VoxError } from "../utils/errors";
+import {
+  useConversation,
+  type ConversationMessage,
+  type ConversationStatus,
+} from "./useConversation";
+
+/**
+ * 음성 AI 에이전트의 현재 상태를 나타냅니다.
+ *
+ * @remarks
+ * 에이전트의 상태는 다음과 같이 변화합니다:
+ * `disconnected` → `connecting` → `listening` ⇄ `speaking`
+ *
+ * `initializing`과 `thinking`은 하위 호환을 위해 타입에 남아 있지만,
+ * `useConversation` 기반 구현에서는 발생하지 않습니다.
+ *
+ * @example
+ * ```tsx
+ * const { state } = useVoxAI();
+ *
+ * if (state === 'listening') {
+ *   console.log('에이전트가 사용자의 말을 듣고 있습니다');
+ * }
+ * ```
+ */
+export type VoxAgentState =
+  /** 연결되지 않은 상태 */
+  | "disconnected"
+  /** Vox.ai 서버에 연결 중 */
+  | "connecting"
+  /** LiveKit 세션을 초기화하는 중 */
+  | "initializing"
+  /** 에이전트가 사용자의 음성을 듣고 있는 상태 */
+  | "listening"
+  /** 에이전트가 응답을 생각하고 있는 상태 */
+  | "thinking"
+  /** 에이전트가 응답을 말하고 있는 상태 */
+  | "speaking";
+
+/**
+ * 에이전트가 실행한 함수 도구들의 정보를 담고 있는 타입입니다.
+ *
+ * @remarks
+ * 에이전트가 외부 API를 호출하거나 특정 작업을 수행할 때 이 타입의 데이터가 생성됩니다.
+ */
+export interface FunctionToolsExecuted {
+  /** 이벤트 타입 */
+  type: "function_tools_executed";
+  /** 실행된 함수 호출 정보 배열 */
+  function_calls: FunctionCallInfo[];
+  /** 함수 호출 결과 배열 */
+  function_call_outputs: FunctionCallResult[];
+}
+
+/**
+ * 에이전트가 호출한 함수의 정보를 담고 있는 타입입니다.
+ */
+export interface FunctionCallInfo {
+  /** 함수 호출 고유 ID */
+  id: string;
+  /** 함수 타입 */
+  type: string;
+  /** 함수 호출 ID */
+  call_id: string;
+  /** 함수에 전달된 인자들 */
+  arguments: Record<string, any>;
+  /** 호출된 함수의 이름 */
+  name: string;
+}
+
+/**
+ * 함수 호출의 결과를 담고 있는 타입입니다.
+ */
+export interface FunctionCallResult {
+  /** 결과 고유 ID */
+  id: string;
+  /** 호출된 함수의 이름 */
+  name: string;
+  /** 결과 타입 */
+  type: string;
+  /** 함수 호출 ID */
+  call_id: string;
+  /** 함수 실행 결과 (문자열 형태) */
+  output: string;
+  /** 에러 발생 여부 */
+  is_error: boolean;
+}
+
+/**
+ * 에이전트와 사용자 간의 대화 메시지를 나타내는 타입입니다.
+ *
+ * @remarks
+ * - `name`이 "agent"인 경우: AI 에이전트가 말한 내용
+ * - `name`이 "user"인 경우: 사용자가 말한 내용 (음성 또는 텍스트)
+ * - `name`이 "tool"인 경우: 에이전트가 실행한 함수 도구 정보. 에이전트가 호출한
+ *   client tool의 실행이 끝날 때마다 하나씩 생성됩니다.
+ *
+ * @example
+ * ```tsx
+ * const { messages } = useVoxAI();
+ *
+ * messages.forEach(msg => {
+ *   if (msg.name === 'user' && msg.isFinal) {
+ *     console.log('사용자:', msg.message);
+ *   }
+ * });
+ * ```
+ */
+export type VoxMessage = {
+  /** 메시지 고유 ID */
+  id?: string;
+  /** 메시지 발신자 타입 */
+  name: "agent" | "user" | "tool";
+  /** 메시지 내용 (음성 전사 텍스트 또는 사용자가 보낸 텍스트) */
+  message?: string;
+  /** 메시지 생성 시각 (Unix timestamp) */
+  timestamp: number;
+  /** 최종 확정된 메시지인지 여부 (false인 경우 음성 인식 중간 결과) */
+  isFinal?: boolean;
+  /** 함수 도구 실행 정보 (name이 "tool"인 경우에만 존재) */
+  tool?: FunctionToolsExecuted;
+};
+
+/**
+ * useVoxAI 훅의 콜백 함수들을 설정하는 옵션입니다.
+ *
+ * @example
+ * ```tsx
+ * const vox = useVoxAI({
+ *   onConnect: () => {
+ *     console.log('음성 AI에 연결되었습니다');
+ *   },
+ *   onDisconnect: () => {
+ *     console.log('연결이 종료되었습니다');
+ *   },
+ *   onError: (error) => {
+ *     console.error('오류 발생:', error.message);
+ *   },
+ *   onMessage: (message) => {
+ *     if (message.isFinal) {
+ *       console.log(`${message.name}: ${message.message}`);
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export interface VoxAIOptions {
+  /** 음성 AI 연결이 성공했을 때 호출되는 콜백 */
+  onConnect?: () => void;
+  /** 음성 AI 연결이 종료되었을 때 호출되는 콜백 */
+  onDisconnect?: () => void;
+  /** 오류가 발생했을 때 호출되는 콜백 */
+  onError?: (error: Error) => void;
+  /** 새로운 최종 메시지가 수신되었을 때 호출되는 콜백 (isFinal이 true인 메시지만 전달됨) */
+  onMessage?: (message: VoxMessage) => void;
+}
+
+/**
+ * Vox.ai 음성 AI에 연결하기 위한 매개변수입니다.
+ *
+ * @example
+ * ```tsx
+ * // 기본 연결 (current 버전)
+ * connect({
+ *   agentId: 'my-agent-id',
+ *   apiKey: 'my-api-key'
+ * });
+ *
+ * // 특정 버전으로 연결
+ * connect({
+ *   agentId: 'my-agent-id',
+ *   agentVersion: 'v5',
+ *   apiKey: 'my-api-key'
+ * });
+ *
+ * // 백엔드에서 발급한 connection details로 연결 (apiKey를 브라우저에 노출하지 않음)
+ * connect({
+ *   agentId: 'my-agent-id',
+ *   getConnectionDetails: () =>
+ *     fetch('/api/vox-token').then((res) => res.json())
+ * });
+ *
+ * // 동적 변수와 함께 연결
+ * connect({
+ *   agentId: 'my-agent-id',
+ *   apiKey: 'my-api-key',
+ *   dynamicVariables: {
+ *     userName: '홍길동',
+ *     userId: 'user123'
+ *   },
+ *   metadata: {
+ *     sessionId: 'sess_abc123'
+ *   }
+ * });
+ * ```
+ */
+export interface ConnectParams {
+  /**
+   * 연결할 에이전트의 ID
+   * @remarks Vox.ai 대시보드에서 확인할 수 있습니다.
+   */
+  agentId: string;
+
+  /**
+   * 사용할 에이전트 버전
+   * @remarks
+   * - `'v1'`, `'v2'`, `'v12'` 등: 특정 버전 번호 (v + 숫자 형식)
+   * - `'current'`: 현재 편집중인 버전 (기본값)
+   * - `'production'`: 프로덕션으로 지정된 버전
+   * - `undefined` 또는 미지정: 'current' 버전 사용
+   */
+  agentVersion?: string;
+
+  /**
+   * Vox.ai API 키
+   * @remarks
+   * Vox.ai 대시보드에서 발급받을 수 있습니다.
+   * 브라우저 번들에 secret key가 포함되므로, production에서는
+   * `getConnectionDetails`, `getToken` 또는 `signedUrl` 사용을 권장합니다.
+   */
+  apiKey?: string;
+
+  /**
+   * 백엔드에서 발급한 LiveKit connection details를 반환하는 함수
+   * @remarks `apiKey` 대신 사용합니다. 반환값의 `serverUrl`과 `participantToken`으로 연결합니다.
+   */
+  getConnectionDetails?: () => Promise<ConnectionDetails>;
+
+  /**
+   * 백엔드에서 발급한 LiveKit participant token을 반환하는 함수
+   * @remarks `serverUrl`과 함께 사용합니다.
+   */
+  getToken?: () => Promise<string>;
+
+  /**
+   * `getToken`으로 발급한 token을 사용할 LiveKit server URL
+   */
+  serverUrl?: string;
+
+  /**
+   * 백엔드에서 미리 서명한 URL
+   * @remarks GET 요청 시 connection details JSON을 반환해야 합니다.
+   */
+  signedUrl?: string;
+
+  /**
+   * 에이전트 대화에 전달할 동적 변수
+   * @remarks
+   * 에이전트 프롬프트에서 이 변수들을 참조하여 개인화된 대화를 만들 수 있습니다.
+   * @example
+   * ```tsx
+   * dynamicVariables: {
+   *   userName: '홍길동',
+   *   userType: 'premium',
+   *   accountBalance: 50000
+   * }
+   * ```
+   */
+  dynamicVariables?: Record<string, any>;
+
+  /**
+   * 통화 메타데이터
+   * @remarks
+   * 이 메타데이터는 아웃바운드 웹훅과 통화 기록에 포함되어,
+   * 외부 시스템과의 연동이나 분석에 활용할 수 있습니다.
+   * @example
+   * ```tsx
+   * metadata: {
+   *   source: 'mobile-app',
+   *   campaignId: 'spring-2024',
+   *   customerId: 'cust_123'
+   * }
+   * ```
+   */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Vox.ai 음성 AI를 React 애플리케이션에 통합하기 위한 훅입니다.
+ *
+ * @deprecated `useConversation`을 사용하세요. 이 훅은 기존 API를 유지하기 위해
+ * `useConversation` 위에 구현된 호환 레이어이며, 최초 사용 시 경고를 출력합니다.
+ *
+ * @param options - 연결 이벤트에 대한 콜백 함수들을 설정하는 옵션 객체
+ *
+ * @returns 음성 AI를 제어하기 위한 메서드와 상태를 포함한 객체
+ * - `connect`: Vox.ai 서버에 연결하는 함수
+ * - `disconnect`: 연결을 종료하는 함수
+ * - `state`: 에이전트의 현재 상태
+ * - `messages`: 대화 메시지 배열
+ * - `send`: 텍스트 메시지 또는 DTMF 숫자를 전송하는 함수
+ * - `audioWaveform`: 실시간 오디오 파형 데이터를 가져오는 함수
+ * - `toggleMic`: 마이크를 켜거나 끄는 함수
+ * - `setVolume`: 에이전트 음성의 볼륨을 조절하는 함수
+ *
+ * @example
+ * ```tsx
+ * function MyComponent() {
+ *   const {
+ *     connect,
+ *     disconnect,
+ *     state,
+ *     messages,
+ *     send,
+ *     audioWaveform,
+ *     toggleMic,
+ *     setVolume
+ *   } = useVoxAI({
+ *     onConnect: () => console.log("연결됨"),
+ *     onDisconnect: () => console.log("연결 종료"),
+ *     onError: (error) => console.error("오류:", error),
+ *     onMessage: (message) => console.log("새 메시지:", message)
+ *   });
+ *
+ *   const handleConnect = () => {
+ *     connect({
+ *       agentId: 'my-agent-id',
+ *       apiKey: 'my-api-key'
+ *     });
+ *   };
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={handleConnect}>연결</button>
+ *       <button onClick={disconnect}>연결 해제</button>
+ *       <p>상태: {state}</p>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useVoxAI(options: VoxAIOptions = {}) {
+  useEffect(() => {
+    warnDeprecated();
+  }, []);
+
+  // Track which messages we've already sent to the onMessage callback
+  const processedMessageIdsRef = useRef<Set<string>>(new Set());
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const conversation = useConversation(
+    useMemo(
+      () => ({
+        onConnect: () => optionsRef.current.onConnect?.(),
+        onDisconnect: () => optionsRef.current.onDisconnect?.(),
+        onError: (error: Error) => optionsRef.current.onError?.(error),
+        onMessage: (message: ConversationMessage) => {
+          if (!message.isFinal || !isSpokenMessage(message)) return;
+          if (processedMessageIdsRef.current.has(message.id)) return;
+          // Mark this message as processed
+          processedMessageIdsRef.current.add(message.id);
+          optionsRef.current.onMessage?.(toVoxMessage(message));
+        },
+      }),
+      [],
+    ),
+  );
+
+  const {
+    on,
+    startSession,
+    endSession,
+    sendUserMessage,
+    sendDtmf,
+    setMicMuted,
+    setVolume: setConversationVolume,
+    getInputByteFrequencyData,
+    getOutputByteFrequencyData,
+  } = conversation;
+
+  const state = toVoxAgentState(conversation.status, conversation.isSpeaking);
+
+  // Client tool runs stand in for the tool messages the previous
+  // implementation read off the data channel.
+  useEffect(
+    () =>
+      on("toolResult", (record) => {
+        optionsRef.current.onMessage?.(toToolMessage(record));
+      }),
+    [on],
+  );
+
+  const messages = useMemo(
+    () =>
+      state === "disconnected"
+        ? EMPTY_MESSAGES
+        : [
+            ...conversation.messages.filter(isSpokenMessage).map(toVoxMessage),
+            ...conversation.toolCalls
+              .filter((record) => record.completedAt !== undefined)
+              .map(toToolMessage),
+          ].sort((a, b) => a.timestamp - b.timestamp),
+    [conversation.messages, conversation.toolCalls, state],
+  );
+
+  /**
+   * Vox.ai 음성 AI 서버에 연결합니다.
+   *
+   * @param params - 연결에 필요한 매개변수 ({@link ConnectParams} 참조)
+   *
+   * @remarks
+   * - 이미 연결된 상태에서 호출하면 오류가 발생합니다.
+   * - 연결에 성공하면 `onConnect` 콜백이 호출됩니다.
+   * - 연결에 실패하면 `onError` 콜백이 호출됩니다.
+   * - 연결 성공 후 상태가 `connecting` → `listening`으로 변화합니다.
+   *
+   * @throws {Error} 이미 연결된 상태이거나 인증에 실패한 경우
+   *
+   * @example
+   * ```tsx
+   * const { connect } = useVoxAI();
+   *
+   * // 기본 연결
+   * await connect({
+   *   agentId: 'agent_abc123',
+   *   apiKey: 'key_xyz789'
+   * });
+   *
+   * // 특정 버전과 동적 변수로 연결
+   * await connect({
+   *   agentId: 'agent_abc123',
+   *   agentVersion: 'v5',
+   *   apiKey: 'key_xyz789',
+   *   dynamicVariables: {
+   *     userName: '홍길동',
+   *     userId: 'user_123'
+   *   }
+   * });
+   * ```
+   */
+  const connect = useCallback(
+    async (params: ConnectParams) => {
+      // Prevent connecting if already in a connection state
+      if (state !== "disconnected") {
+        const errorMessage = `Connection attempt rejected: Already in a connection state (${state})`;
+        console.warn(errorMessage);
+
+        const error = new VoxError("invalid_state", errorMessage);
+        optionsRef.current.onError?.(error);
+        return Promise.reject(error);
+      }
+
+      processedMessageIdsRef.current = new Set();
+
+      try {
+        await startSession({
+          agentId: params.agentId,
+          agentVersion: params.agentVersion,
+          dynamicVariables: params.dynamicVariables,
+          metadata: params.metadata,
+          ...toSessionAuth(params),
+        });
+      } catch (err) {
+        optionsRef.current.onError?.(toVoxError(err));
+      }
+    },
+    [startSession, state],
+  );
+
+  /**
+   * 음성 AI 연결을 종료합니다.
+   *
+   * @remarks
+   * - 연결이 종료되면 `onDisconnect` 콜백이 호출됩니다.
+   * - 모든 메시지와 상태가 초기화됩니다.
+   * - 상태가 `disconnected`로 변경됩니다.
+   * - 연결되지 않은 상태에서 호출해도 안전합니다.
+   *
+   * @example
+   * ```tsx
+   * const { disconnect } = useVoxAI();
+   *
+   * // 연결 종료
+   * disconnect();
+   * ```
+   */
+  const disconnect = useCallback(() => {
+    void endSession();
+  }, [endSession]);
+
+  /**
+   * 에이전트에게 텍스트 메시지를 전송하거나 DTMF 숫자를 입력합니다.
+   *
+   * @param params - 전송할 메시지 또는 DTMF 숫자
+   * @param params.message - 전송할 텍스트 메시지 (음성 대신 텍스트로 입력)
+   * @param params.digit - 전송할 DTMF 숫자 (0-9, `*`은 10, `#`은 11)
+   *
+   * @remarks
+   * - 연결되지 않은 상태에서 호출하면 경고 메시지가 출력되고 무시됩니다.
+   * - `message`와 `digit`을 동시에 전달할 수 있습니다.
+   * - 텍스트 메시지는 음성 입력 대신 사용할 수 있습니다.
+   * - DTMF는 전화번호 입력 등에 활용됩니다. 전송에 실패하면 `onError` 콜백이 호출됩니다.
+   * - DTMF는 client가 지원해야 동작합니다. 현재 `@vox-ai/client`는 지원하지 않아 `onError`가 호출됩니다.
+   *
+   * @example
+   * ```tsx
+   * const { send } = useVoxAI();
+   *
+   * // 텍스트 메시지 전송
+   * send({ message: '안녕하세요' });
+   *
+   * // DTMF 숫자 전송
+   * send({ digit: 1 });
+   *
+   * // 둘 다 전송
+   * send({ message: '1번을 선택합니다', digit: 1 });
+   * ```
+   */
+  const send = useCallback(
+    ({ message, digit }: { message?: string; digit?: number }) => {
+      if (state === "disconnected") {
+        console.warn("Cannot send message: Not connected to a conversation");
+        return;
+      }
+
+      if (message) {
+        sendUserMessage(message).catch((error) => {
+          console.error("Failed to send message:", error);
+        });
+      }
+
+      if (digit !== undefined) {
+        const dtmfDigit = toDtmfDigit(digit);
+        if (dtmfDigit === undefined) {
+          optionsRef.current.onError?.(
+            new VoxError(
+              "invalid_argument",
+              `DTMF digit must be an integer from 0 to 11, got ${digit}`,
+            ),
+          );
+          return;
+        }
+        // `sendDtmf` already reports failures through `onError`.
+        sendDtmf(dtmfDigit).catch(() => undefined);
+      }
+    },
+    [sendDtmf, sendUserMessage, state],
+  );
+
+  /**
+   * 실시간 오디오 파형 데이터를 가져옵니다.
+   *
+   * @param params - 파형 설정 옵션
+   * @param params.speaker - 파형을 가져올 대상 (`"agent"` 또는 `"user"`, 기본값: `"agent"`)
+   * @param params.barCount - 반환할 파형 막대 개수 (기본값: 10)
+   * @param params.updateInterval - 파형 업데이트 간격 (밀리초, 기본값: 20)
+   *
+   * @returns 0~1 사이의 값을 가진 숫자 배열 (길이는 `barCount`와 동일)
+   *
+   * @remarks
+   * - 각 값은 해당 주파수 대역의 음량을 나타냅니다 (0: 무음, 1: 최대 음량).
+   * - 음성 시각화 UI를 만들 때 유용합니다.
+   * - 연결되지 않은 상태에서는 모두 0으로 채워진 배열을 반환합니다.
+   *
+   * @example
+   * ```tsx
+   * const { audioWaveform, state } = useVoxAI();
+   *
+   * // 렌더링 루프에서 사용
+   * useEffect(() => {
+   *   const interval = setInterval(() => {
+   *     // 에이전트의 파형 데이터 (20개 막대)
+   *     const agentWaveform = audioWaveform({
+   *       speaker: 'agent',
+   *       barCount: 20
+   *     });
+   *
+   *     // 사용자의 파형 데이터
+   *     const userWaveform = audioWaveform({
+   *       speaker: 'user',
+   *       barCount: 20
+   *     });
+   *
+   *     // 시각화 업데이트
+   *     updateVisualization(agentWaveform, userWaveform);
+   *   }, 50);
+   *
+   *   return () => clearInterval(interval);
+   * }, []);
+   * ```
+   */
+  const audioWaveform = useCallback(
+    ({
+      speaker = "agent",
+      barCount = 10,
+    }: {
+      speaker?: "agent" | "user";
+      barCount?: number;
+      updateInterval?: number;
+    }): number[] => {
+      const frequencyData =
+        speaker === "agent"
+          ? getOutputByteFrequencyData()
+          : getInputByteFrequencyData();
+      return toFrequencyBars(frequencyData, barCount);
+    },
+    [getInputByteFrequencyData, getOutputByteFrequencyData],
+  );
+
+  /**
+   * 사용자의 마이크를 켜거나 끕니다.
+   *
+   * @param value - `true`면 마이크 켜기, `false`면 마이크 끄기
+   *
+   * @remarks
+   * - 마이크를 끄면 에이전트가 사용자의 음성을 듣지 못합니다.
+   * - 음성 인식도 중단됩니다.
+   * - 프라이버시나 소음 차단이 필요할 때 유용합니다.
+   *
+   * @example
+   * ```tsx
+   * const { toggleMic } = useVoxAI();
+   *
+   * // 마이크 끄기
+   * toggleMic(false);
+   *
+   * // 마이크 켜기
+   * toggleMic(true);
+   *
+   * // 토글 버튼 예제
+   * const [isMuted, setIsMuted] = useState(false);
+   * const handleToggle = () => {
+   *   setIsMuted(!isMuted);
+   *   toggleMic(!isMuted);
+   * };
+   * ```
+   */
+  const toggleMic = useCallback(
+    (value: boolean) => {
+      setMicMuted(!value).catch((error) => {
+        console.error("Failed to toggle microphone:", error);
+      });
+    },
+    [setMicMuted],
+  );
+
+  /**
+   * 에이전트 음성의 볼륨을 설정합니다.
+   *
+   * @param volume - 볼륨 크기 (0.0 ~ 1.0 사이의 값, 0: 무음, 1: 최대 음량)
+   *
+   * @remarks
+   * - 범위를 벗어난 값은 자동으로 0~1 사이로 조정됩니다.
+   * - 예: `-0.5` → `0`, `1.5` → `1`
+   * - 사용자의 환경에 따라 적절한 볼륨을 설정할 수 있습니다.
+   *
+   * @example
+   * ```tsx
+   * const { setVolume } = useVoxAI();
+   *
+   * // 볼륨을 50%로 설정
+   * setVolume(0.5);
+   *
+   * // 볼륨을 최대로 설정
+   * setVolume(1.0);
+   *
+   * // 볼륨 슬라이더 예제
+   * const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+   *   const newVolume = parseFloat(e.target.value);
+   *   setVolume(newVolume);
+   * };
+   *
+   * <input
+   *   type="range"
+   *   min="0"
+   *   max="1"
+   *   step="0.1"
+   *   onChange={handleVolumeChange}
+   * />
+   * ```
+   */
+  const setVolume = useCallback(
+    (volume: number) => {
+      const validVolume = Math.min(Math.max(volume, 0), 1);
+      setConversationVolume({ volume: validVolume });
+    },
+    [setConversationVolume],
+  );
+
+  return {
+    connect,
+    disconnect,
+    state,
+    messages,
+    send,
+    audioWaveform,
+    toggleMic,
+    setVolume,
+  };
+}
+
+const EMPTY_MESSAGES: VoxMessage[] = [];
+
+let deprecationWarned = false;
+
+function warnDeprecated() {
+  if (deprecationWarned) return;
+  deprecationWarned = true;
+  console.warn(
+    "[@vox-ai/react] useVoxAI is deprecated and will be removed in a future release. Use useConversation instead.",
+  );
+}
+
+function toVoxAgentState(
+  status: ConversationStatus,
+  isSpeaking: boolean,
+): VoxAgentState {
+  if (
+    status === "connecting" ||
+    status === "requesting-permission" ||
+    status === "reconnecting"
+  ) {
+    return "connecting";
+  }
+  if (status !== "connected") return "disconnected";
+  return isSpeaking ? "speaking" : "listening";
+}
+
+// RFC 4733 event codes, as accepted by the previous `publishDtmf` call.
+function toDtmfDigit(digit: number): string | undefined {
+  if (digit === 10) return "*";
+  if (digit === 11) return "#";
+  return Number.isInteger(digit) && digit >= 0 && digit <= 9
+    ? String(digit)
+    : undefined;
+}
+
+function toSessionAuth({
+  apiKey,
+  getConnectionDetails,
+  getToken,
+  serverUrl,
+  signedUrl,
+}: ConnectParams): SessionAuth {
+  if (apiKey) return { apiKey };
+  if (getConnectionDetails) return { getConnectionDetails };
+  if (getToken && serverUrl) return { getToken, serverUrl };
+  if (signedUrl) return { signedUrl };
+  throw new AuthError(
+    "Missing credentials: provide apiKey, getConnectionDetails, getToken with serverUrl, or signedUrl",
+  );
+}
+
+type SpokenMessage = ConversationMessage & { source: "agent" | "user" };
+
+// System entries have no `VoxMessage` equivalent; tools come from `toolCalls`.
+function isSpokenMessage(entry: ConversationEntry): entry is SpokenMessage {
+  return entry.source === "agent" || entry.source === "user";
+}
+
+function toVoxMessage(message: SpokenMessage): VoxMessage {
+  return {
+    id: message.id,
+    name: message.source,
+    message: message.text,
+    timestamp: message.timestamp,
+    isFinal: message.isFinal,
+  };
+}
+
+function toToolMessage(record: ClientToolCallRecord): VoxMessage {
+  const { toolCallId, toolName } = record;
+  return {
+    id: `tool-${toolCallId}`,
+    name: "tool",
+    timestamp: record.completedAt ?? record.startedAt,
+    isFinal: true,
+    tool: {
+      type: "function_tools_executed",
+      function_calls: [
+        {
+          id: toolCallId,
+          type: "function_call",
+          call_id: toolCallId,
+          arguments: record.parameters,
+          name: toolName,
+        },
+      ],
+      function_call_outputs: [
+        {
+          id: toolCallId,
+          name: toolName,
+          type: "function_call_output",
+          call_id: toolCallId,
+          output: record.result ?? "",
+          is_error: record.isError ?? false,
+        },
+      ],
+    },
+  };
+}
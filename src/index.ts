@@ -1,12 +1,126 @@
-export { useConversation } from "./hooks";
+export {
+  ConversationProvider,
+  useConversationActions,
+  useConversationContext,
+  useConversationMessages,
+  useConversationStatus,
+  useMicState,
+} from "./context";
 export type {
+  ConversationActions,
+  ConversationProviderProps,
+  ConversationStatusState,
+  MicState,
+} from "./context";
+export {
+  useAudioLevels,
+  useConversation,
+  useConversationEvent,
+  useConversationSelector,
+  useMediaDevices,
+  useMessage,
+  useTurns,
+  useVoxAI,
+} from "./hooks";
+export {
+  AgentNotFoundError,
+  AuthError,
+  ClientToolError,
+  DeviceError,
+  MicrophonePermissionError,
+  NetworkError,
+  QuotaExceededError,
+  TransportError,
+  VoxError,
+} from "./utils/errors";
+export {
+  checkMicrophonePermission,
+  requestMicrophonePermission,
+} from "./utils/permissions";
+export {
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+} from "./utils/persistence";
+export { exportTranscript } from "./utils/transcript";
+export type {
+  AudioLevels,
+  ConnectParams,
+  ConversationTurn,
+  FunctionCallInfo,
+  FunctionCallResult,
+  FunctionToolsExecuted,
+  MediaDeviceOption,
+  UseAudioLevelsOptions,
+  UseAudioLevelsResult,
+  UseConversationEventOptions,
+  UseConversationSelectorOptions,
+  UseMediaDevicesOptions,
+  UseMediaDevicesResult,
+  UseTurnsOptions,
+  VoxAgentState,
+  VoxAIOptions,
+  VoxMessage,
+} from "./hooks";
+export type {
+  AgentChange,
+  AgentRef,
+  ApiKeyAuth,
+  AuthRequest,
+  ClientToolCall,
+  ClientToolCallRecord,
+  ClientToolHandler,
+  ClientToolParameters,
+  ClientToolResult,
+  ClientTools,
+  ConnectionDetails,
+  ConnectionDetailsAuth,
+  ConversationCapabilities,
+  ConversationStorageAdapter,
+  ExportTranscriptOptions,
+  ContextualUpdate,
+  ConversationEntry,
+  ConversationEvent,
+  ConversationEventMap,
   ConversationMessage,
+  ConversationMessageStore,
+  ConversationMetrics,
   ConversationMode,
+  ConversationRecording,
   ConversationSource,
   ConversationStatus,
+  DisconnectDetails,
+  DtmfOptions,
+  DynamicVariables,
+  HandoffOptions,
+  IndexedDbAdapterOptions,
   InputDeviceConfig,
+  LocalStorageAdapterOptions,
+  MicrophonePermission,
+  MicrophonePermissionErrorCode,
   OutputDeviceConfig,
+  PushToTalkOptions,
+  RecordingOptions,
+  RecordingSource,
+  RecordingTimelineEntry,
+  ReconnectingInfo,
+  ReconnectOptions,
+  SessionAuth,
+  SessionEndReason,
+  SessionLimitReason,
+  SessionStats,
+  SessionWarning,
   SetVolumeParams,
+  SignedUrlAuth,
+  StoredConversation,
+  SystemMessage,
+  StoredConversationSummary,
   StartConversationOptions,
+  TokenAuth,
+  TranscriptFormat,
+  TranscriptMessage,
+  TurnMetrics,
   UseConversationOptions,
+  UseConversationResult,
+  VoxErrorCode,
+  VoxErrorOptions,
 } from "./hooks";
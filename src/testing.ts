@@ -0,0 +1,9 @@
+export { createMockConversation } from "./testing/createMockConversation";
+export type {
+  MockConversation,
+  MockConversationCalls,
+  MockConversationOptions,
+  MockMessageInput,
+} from "./testing/createMockConversation";
+export { MockConversationProvider } from "./testing/MockConversationProvider";
+export type { MockConversationProviderProps } from "./testing/MockConversationProvider";
@@ -0,0 +1,28 @@
+import React from "react";
+import { ConversationFactoryContext } from "../context/ConversationFactoryContext";
+import { MicrophonePermissionContext } from "../context/MicrophonePermissionContext";
+import type { MockConversation } from "./createMockConversation";
+
+export type MockConversationProviderProps = {
+  conversation: MockConversation;
+  children?: React.ReactNode;
+};
+
+/**
+ * 하위 tree의 `useConversation`(및 `ConversationProvider`)이 실제 `@vox-ai/client`
+ * 대신 `conversation` mock으로 session을 만들고, 브라우저 대신 mock의 마이크 권한을 사용하도록 합니다.
+ */
+export function MockConversationProvider({
+  conversation,
+  children,
+}: MockConversationProviderProps) {
+  return (
+    <ConversationFactoryContext.Provider value={conversation.factory}>
+      <MicrophonePermissionContext.Provider
+        value={conversation.microphonePermission}
+      >
+        {children}
+      </MicrophonePermissionContext.Provider>
+    </ConversationFactoryContext.Provider>
+  );
+}
@@ -0,0 +1,144 @@
+import type { StartSessionOptions } from "@vox-ai/client";
+import { createMockConversation } from "./createMockConversation";
+
+function startOptions(
+  overrides: Partial<StartSessionOptions> = {},
+): StartSessionOptions {
+  return {
+    agentId: "agent_1",
+    apiKey: "key",
+    ...overrides,
+  } as StartSessionOptions;
+}
+
+describe("createMockConversation", () => {
+  it("connects on start and records the options", async () => {
+    const mock = createMockConversation({ conversationId: "conv_1" });
+    const onConnect = jest.fn();
+    const onStatusChange = jest.fn();
+
+    const conversation = await mock.factory(
+      startOptions({ onConnect, onStatusChange }),
+    );
+
+    expect(conversation.getId()).toBe("conv_1");
+    expect(conversation.getStatus()).toBe("connected");
+    expect(onStatusChange.mock.calls).toEqual([["connecting"], ["connected"]]);
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(mock.isActive()).toBe(true);
+    expect(mock.lastStartOptions()?.agentId).toBe("agent_1");
+  });
+
+  it("waits for connect() when autoConnect is off", async () => {
+    const mock = createMockConversation({ autoConnect: false });
+    const onConnect = jest.fn();
+    const conversation = await mock.factory(startOptions({ onConnect }));
+
+    expect(conversation.getStatus()).toBe("disconnected");
+    mock.connect();
+    expect(conversation.getStatus()).toBe("connected");
+    expect(onConnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails to start with startError", async () => {
+    const mock = createMockConversation({ startError: new Error("boom") });
+
+    await expect(mock.factory(startOptions())).rejects.toThrow("boom");
+    expect(mock.calls.startSession).toHaveLength(1);
+    expect(mock.isActive()).toBe(false);
+  });
+
+  it("streams interim results before the final message", async () => {
+    const mock = createMockConversation();
+    const onMessage = jest.fn();
+    const conversation = await mock.factory(startOptions({ onMessage }));
+
+    const final = mock.streamMessage({ source: "agent" }, ["Hel", "lo"]);
+
+    expect(onMessage.mock.calls.map(([message]) => message)).toEqual([
+      expect.objectContaining({ text: "Hel", isFinal: false }),
+      expect.objectContaining({ text: "Hello", isFinal: false }),
+      expect.objectContaining({ text: "Hello", isFinal: true }),
+    ]);
+    expect(conversation.getMessages()).toEqual([final]);
+  });
+
+  it("reports an unexpected disconnect and ends the session", async () => {
+    const mock = createMockConversation();
+    const onDisconnect = jest.fn();
+    const conversation = await mock.factory(startOptions({ onDisconnect }));
+
+    mock.disconnect();
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(conversation.getStatus()).toBe("disconnected");
+    expect(mock.isActive()).toBe(false);
+    expect(() => mock.emitMessage({ source: "agent", text: "late" })).toThrow(
+      "no active session",
+    );
+  });
+
+  it("counts endSession calls but closes only once", async () => {
+    const mock = createMockConversation();
+    const onDisconnect = jest.fn();
+    const conversation = await mock.factory(startOptions({ onDisconnect }));
+
+    await conversation.endSession();
+    await conversation.endSession();
+
+    expect(mock.calls.endSession).toBe(2);
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs client tools through the session handler", async () => {
+    const mock = createMockConversation();
+    const onClientToolCall = jest.fn(async ({ toolCallId }) => ({
+      toolCallId,
+      result: "ok",
+      isError: false,
+    }));
+    await mock.factory(startOptions({ onClientToolCall }));
+
+    const result = await mock.callTool("lookup", { id: 1 });
+
+    expect(onClientToolCall).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: "lookup", parameters: { id: 1 } }),
+    );
+    expect(result).toEqual(expect.objectContaining({ result: "ok" }));
+  });
+
+  it("answers a permission prompt with permissionResponse", async () => {
+    const mock = createMockConversation({
+      permission: "prompt",
+      permissionResponse: "denied",
+    });
+    const listener = jest.fn();
+    mock.microphonePermission.subscribe(listener);
+
+    expect(await mock.microphonePermission.check()).toBe("prompt");
+    expect(await mock.microphonePermission.request()).toBe("denied");
+    expect(listener).toHaveBeenCalledWith("denied");
+    expect(mock.calls.requestPermission).toBe(1);
+  });
+
+  it("keeps a dismissed prompt undecided", async () => {
+    const mock = createMockConversation({
+      permission: "prompt",
+      permissionResponse: "dismissed",
+    });
+
+    expect(await mock.microphonePermission.request()).toBe("prompt");
+  });
+
+  it("clears calls and state on reset", async () => {
+    const mock = createMockConversation();
+    const conversation = await mock.factory(startOptions());
+    await conversation.sendUserMessage("hi");
+
+    mock.reset();
+
+    expect(mock.calls.startSession).toEqual([]);
+    expect(mock.calls.sendUserMessage).toEqual([]);
+    expect(mock.isActive()).toBe(false);
+  });
+});
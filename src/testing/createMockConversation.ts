@@ -0,0 +1,361 @@
+import type {
+  ConversationMessage,
+  ConversationMode,
+  ConversationSource,
+  ConversationStatus,
+  InputDeviceConfig,
+  OutputDeviceConfig,
+  SetVolumeParams,
+  StartSessionOptions,
+} from "@vox-ai/client";
+import type {
+  ConversationFactory,
+  ConversationLike,
+} from "../context/ConversationFactoryContext";
+import type { MicrophonePermissionApi } from "../context/MicrophonePermissionContext";
+import type {
+  ClientToolParameters,
+  ClientToolResult,
+} from "../utils/clientTools";
+import type { MicrophonePermission } from "../utils/permissions";
+
+export type MockConversationOptions = {
+  /** `getId()`가 반환할 conversation id (default: `"mock-conversation"`) */
+  conversationId?: string;
+  /** `startSession` 시 자동으로 `connected` 상태로 전환할지 여부 (default: `true`) */
+  autoConnect?: boolean;
+  /** 지정하면 `startSession`이 이 에러로 실패합니다 */
+  startError?: Error;
+  /** 마이크 권한 상태 (default: `"granted"`) */
+  permission?: MicrophonePermission;
+  /** 권한 요청(prompt)에 대한 사용자의 응답 (default: `"granted"`) */
+  permissionResponse?: Exclude<MicrophonePermission, "prompt"> | "dismissed";
+};
+
+export type MockMessageInput = {
+  id?: string;
+  source: ConversationSource;
+  text: string;
+  timestamp?: number;
+};
+
+export type MockConversationCalls = {
+  startSession: StartSessionOptions[];
+  endSession: number;
+  sendUserMessage: string[];
+  setMicMuted: boolean[];
+  setVolume: SetVolumeParams[];
+  changeInputDevice: InputDeviceConfig[];
+  changeOutputDevice: OutputDeviceConfig[];
+  requestPermission: number;
+  endUserTurn: number;
+  sendDtmf: string[];
+  sendContextualUpdate: string[];
+  updateDynamicVariables: Record<string, string | number | boolean>[];
+};
+
+export type MockConversation = {
+  /** `MockConversationProvider`가 `useConversation`에 주입하는 factory */
+  factory: ConversationFactory;
+  /** `MockConversationProvider`가 주입하는 마이크 권한 API */
+  microphonePermission: MicrophonePermissionApi;
+  /** Hook이 호출한 메서드 기록 */
+  calls: MockConversationCalls;
+  /** 현재 session이 열려 있는지 여부 */
+  isActive(): boolean;
+  /** 마지막 `startSession`에 전달된 옵션 */
+  lastStartOptions(): StartSessionOptions | undefined;
+  /** `connecting` → `connected`로 전환하고 `onConnect`를 호출합니다 */
+  connect(): void;
+  setStatus(status: ConversationStatus): void;
+  setMode(mode: ConversationMode): void;
+  /** 확정된 메시지를 전달합니다 */
+  emitMessage(message: MockMessageInput): ConversationMessage;
+  /** 중간 결과(`isFinal: false`)를 누적 전달한 뒤 최종 메시지를 전달합니다 */
+  streamMessage(
+    message: Omit<MockMessageInput, "text">,
+    chunks: string[],
+  ): ConversationMessage;
+  emitError(error: Error | string): void;
+  /** Agent가 client tool을 호출한 것처럼 `clientTools` handler를 실행합니다 */
+  callTool(
+    toolName: string,
+    parameters?: ClientToolParameters,
+  ): Promise<ClientToolResult>;
+  /** 의도하지 않은 연결 끊김을 시뮬레이션합니다 */
+  disconnect(): void;
+  setInputVolume(volume: number): void;
+  setOutputVolume(volume: number): void;
+  /** 브라우저 설정에서 권한이 바뀐 것처럼 권한 상태를 변경합니다 */
+  setPermission(permission: MicrophonePermission): void;
+  /** 기록된 호출과 상태를 초기화합니다 */
+  reset(): void;
+};
+
+type SessionState = {
+  options: StartSessionOptions;
+  status: ConversationStatus;
+  mode: ConversationMode;
+  micMuted: boolean;
+  messages: Map<string, ConversationMessage>;
+  active: boolean;
+};
+
+const FREQUENCY_BIN_COUNT = 32;
+
+function createCalls(): MockConversationCalls {
+  return {
+    startSession: [],
+    endSession: 0,
+    sendUserMessage: [],
+    setMicMuted: [],
+    setVolume: [],
+    changeInputDevice: [],
+    changeOutputDevice: [],
+    requestPermission: 0,
+    endUserTurn: 0,
+    sendDtmf: [],
+    sendContextualUpdate: [],
+    updateDynamicVariables: [],
+  };
+}
+
+function toFrequencyData(volume: number): Uint8Array {
+  return new Uint8Array(FREQUENCY_BIN_COUNT).fill(Math.round(volume * 255));
+}
+
+/**
+ * WebRTC나 네트워크 없이 agent 동작을 스크립트로 제어할 수 있는 mock conversation을 만듭니다.
+ *
+ * @example
+ * ```tsx
+ * const mock = createMockConversation();
+ * render(
+ *   <MockConversationProvider conversation={mock}>
+ *     <VoiceWidget />
+ *   </MockConversationProvider>,
+ * );
+ *
+ * await user.click(screen.getByText("Start"));
+ * act(() => mock.emitMessage({ source: "agent", text: "안녕하세요" }));
+ * expect(mock.calls.startSession).toHaveLength(1);
+ * ```
+ */
+export function createMockConversation({
+  conversationId = "mock-conversation",
+  autoConnect = true,
+  startError,
+  permission: initialPermission = "granted",
+  permissionResponse = "granted",
+}: MockConversationOptions = {}): MockConversation {
+  let calls = createCalls();
+  let session: SessionState | null = null;
+  let inputVolume = 0;
+  let outputVolume = 0;
+  let messageCount = 0;
+  let permission = initialPermission;
+  const permissionListeners = new Set<
+    (permission: MicrophonePermission) => void
+  >();
+
+  const setPermission = (next: MicrophonePermission) => {
+    permission = next;
+    permissionListeners.forEach((listener) => listener(next));
+  };
+
+  const microphonePermission: MicrophonePermissionApi = {
+    async check() {
+      return permission;
+    },
+    async request() {
+      calls.requestPermission += 1;
+      if (permission === "prompt") {
+        // A dismissed prompt leaves the permission undecided.
+        if (permissionResponse !== "dismissed") {
+          setPermission(permissionResponse);
+        }
+      }
+      return permission;
+    },
+    subscribe(listener) {
+      permissionListeners.add(listener);
+      return () => {
+        permissionListeners.delete(listener);
+      };
+    },
+  };
+
+  const requireSession = (): SessionState => {
+    if (!session?.active) {
+      throw new Error("MockConversation: no active session");
+    }
+    return session;
+  };
+
+  const setStatus = (status: ConversationStatus) => {
+    const current = requireSession();
+    current.status = status;
+    current.options.onStatusChange?.(status);
+  };
+
+  const deliver = (message: ConversationMessage) => {
+    const current = requireSession();
+    current.messages.set(message.id, message);
+    current.options.onMessage?.(message);
+    return message;
+  };
+
+  const nextMessageId = () => `mock-message-${++messageCount}`;
+  let toolCallCount = 0;
+
+  const close = () => {
+    const current = requireSession();
+    current.active = false;
+    current.status = "disconnected";
+    current.options.onStatusChange?.("disconnected");
+    current.options.onDisconnect?.();
+  };
+
+  const connect = () => {
+    setStatus("connecting");
+    setStatus("connected");
+    requireSession().options.onConnect?.();
+  };
+
+  const factory: ConversationFactory = async (options) => {
+    calls.startSession.push(options);
+    if (startError) throw startError;
+
+    const state: SessionState = {
+      options,
+      status: "disconnected",
+      mode: "listening",
+      micMuted: false,
+      messages: new Map(),
+      active: true,
+    };
+    session = state;
+
+    if (autoConnect) connect();
+
+    const instance: ConversationLike = {
+      async endSession() {
+        calls.endSession += 1;
+        if (state.active) close();
+      },
+      getId: () => conversationId,
+      getStatus: () => state.status,
+      getMode: () => state.mode,
+      getMicMuted: () => state.micMuted,
+      getMessages: () =>
+        Array.from(state.messages.values()).sort(
+          (a, b) => a.timestamp - b.timestamp,
+        ),
+      setVolume(params) {
+        calls.setVolume.push(params);
+      },
+      async setMicMuted(isMuted) {
+        calls.setMicMuted.push(isMuted);
+        state.micMuted = isMuted;
+      },
+      async sendUserMessage(text) {
+        calls.sendUserMessage.push(text);
+      },
+      async changeInputDevice(config) {
+        calls.changeInputDevice.push(config);
+        return true;
+      },
+      async changeOutputDevice(config) {
+        calls.changeOutputDevice.push(config);
+        return true;
+      },
+      getInputVolume: () => inputVolume,
+      getOutputVolume: () => outputVolume,
+      getInputByteFrequencyData: () => toFrequencyData(inputVolume),
+      getOutputByteFrequencyData: () => toFrequencyData(outputVolume),
+      async endUserTurn() {
+        calls.endUserTurn += 1;
+      },
+      async sendDtmf(digit) {
+        calls.sendDtmf.push(digit);
+      },
+      async sendContextualUpdate(text) {
+        calls.sendContextualUpdate.push(text);
+      },
+      async updateDynamicVariables(variables) {
+        calls.updateDynamicVariables.push(variables);
+      },
+    };
+
+    return instance;
+  };
+
+  return {
+    factory,
+    microphonePermission,
+    get calls() {
+      return calls;
+    },
+    isActive: () => Boolean(session?.active),
+    lastStartOptions: () => calls.startSession[calls.startSession.length - 1],
+    connect,
+    setStatus,
+    setMode(mode) {
+      const current = requireSession();
+      current.mode = mode;
+      current.options.onModeChange?.(mode);
+    },
+    emitMessage({
+      id = nextMessageId(),
+      source,
+      text,
+      timestamp = Date.now(),
+    }) {
+      return deliver({ id, source, text, timestamp, isFinal: true });
+    },
+    streamMessage(
+      { id = nextMessageId(), source, timestamp = Date.now() },
+      chunks,
+    ) {
+      let text = "";
+      chunks.forEach((chunk) => {
+        text += chunk;
+        deliver({ id, source, text, timestamp, isFinal: false });
+      });
+      return deliver({ id, source, text, timestamp, isFinal: true });
+    },
+    emitError(error) {
+      requireSession().options.onError?.(
+        typeof error === "string" ? new Error(error) : error,
+      );
+    },
+    async callTool(toolName, parameters = {}) {
+      const { onClientToolCall } = requireSession().options;
+      if (!onClientToolCall) {
+        throw new Error("MockConversation: session has no client tool handler");
+      }
+      return onClientToolCall({
+        toolCallId: `mock-tool-call-${++toolCallCount}`,
+        toolName,
+        parameters,
+      });
+    },
+    disconnect: close,
+    setInputVolume(volume) {
+      inputVolume = volume;
+    },
+    setOutputVolume(volume) {
+      outputVolume = volume;
+    },
+    setPermission,
+    reset() {
+      calls = createCalls();
+      session = null;
+      inputVolume = 0;
+      outputVolume = 0;
+      messageCount = 0;
+      toolCallCount = 0;
+      permission = initialPermission;
+    },
+  };
+}
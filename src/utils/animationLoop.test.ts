@@ -0,0 +1,84 @@
+import { subscribeAnimationFrame } from "./animationLoop";
+
+// Runs queued frames only when the test asks for one.
+let frames = new Map<number, FrameRequestCallback>();
+let nextFrameId = 0;
+
+function runFrame(now: number) {
+  const pending = [...frames.values()];
+  frames = new Map();
+  pending.forEach((callback) => callback(now));
+}
+
+const originalRequest = globalThis.requestAnimationFrame;
+const originalCancel = globalThis.cancelAnimationFrame;
+
+beforeEach(() => {
+  frames = new Map();
+  globalThis.requestAnimationFrame = (callback) => {
+    nextFrameId += 1;
+    frames.set(nextFrameId, callback);
+    return nextFrameId;
+  };
+  globalThis.cancelAnimationFrame = (id) => {
+    frames.delete(id);
+  };
+});
+
+afterEach(() => {
+  globalThis.requestAnimationFrame = originalRequest;
+  globalThis.cancelAnimationFrame = originalCancel;
+});
+
+describe("subscribeAnimationFrame", () => {
+  it("shares one frame loop and stops after the last unsubscribe", () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribeAnimationFrame(first);
+    const unsubscribeSecond = subscribeAnimationFrame(second);
+    expect(frames.size).toBe(1);
+
+    runFrame(100);
+    unsubscribeFirst();
+    runFrame(200);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    unsubscribeSecond();
+    expect(frames.size).toBe(0);
+  });
+
+  it("throttles each subscriber to its fps", () => {
+    const callback = jest.fn();
+    const unsubscribe = subscribeAnimationFrame(callback, 10);
+
+    [100, 150, 199, 250].forEach(runFrame);
+    unsubscribe();
+
+    expect(callback.mock.calls.map(([now]) => now)).toEqual([100, 199]);
+  });
+
+  it("keeps running the others when a subscriber throws", () => {
+    jest.useFakeTimers({
+      doNotFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+    try {
+      const unsubscribeBroken = subscribeAnimationFrame(() => {
+        throw new Error("draw failed");
+      });
+      const healthy = jest.fn();
+      const unsubscribeHealthy = subscribeAnimationFrame(healthy);
+
+      runFrame(100);
+      runFrame(200);
+
+      expect(healthy).toHaveBeenCalledTimes(2);
+      expect(frames.size).toBe(1);
+      expect(() => jest.runOnlyPendingTimers()).toThrow("draw failed");
+      unsubscribeBroken();
+      unsubscribeHealthy();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { rethrowAsync } from "./events";
+
+type FrameSubscriber = {
+  callback: (now: number) => void;
+  interval: number;
+  last: number;
+};
+
+const subscribers = new Set<FrameSubscriber>();
+let frameId: number | null = null;
+
+function tick(now: number) {
+  frameId = null;
+  subscribers.forEach((subscriber) => {
+    // Allow a millisecond of slack so 60fps subscribers never skip a frame.
+    if (now - subscriber.last >= subscriber.interval - 1) {
+      subscriber.last = now;
+      // One broken visualizer must not freeze the others sharing the loop.
+      try {
+        subscriber.callback(now);
+      } catch (err) {
+        rethrowAsync(err);
+      }
+    }
+  });
+  schedule();
+}
+
+function schedule() {
+  if (frameId !== null || subscribers.size === 0 || document.hidden) return;
+  frameId = requestAnimationFrame(tick);
+}
+
+function cancel() {
+  if (frameId === null) return;
+  cancelAnimationFrame(frameId);
+  frameId = null;
+}
+
+function handleVisibilityChange() {
+  if (document.hidden) cancel();
+  else schedule();
+}
+
+/**
+ * Runs `callback` from a single `requestAnimationFrame` loop shared by every
+ * subscriber, throttled to `fps`. The loop pauses while the tab is hidden and
+ * stops once the last subscriber unsubscribes.
+ */
+export function subscribeAnimationFrame(
+  callback: (now: number) => void,
+  fps = 60,
+): () => void {
+  const subscriber: FrameSubscriber = {
+    callback,
+    interval: 1000 / Math.max(fps, 1),
+    last: 0,
+  };
+
+  if (subscribers.size === 0) {
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+  }
+  subscribers.add(subscriber);
+  schedule();
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0) {
+      cancel();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    }
+  };
+}
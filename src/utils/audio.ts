@@ -0,0 +1,21 @@
+/** Folds analyser frequency bins into `barCount` averaged bars in 0..1. */
+export function toFrequencyBars(
+  frequencyData: Uint8Array | undefined,
+  barCount: number,
+): number[] {
+  if (!frequencyData || frequencyData.length === 0) {
+    return Array(barCount).fill(0);
+  }
+
+  const binsPerBar = Math.max(Math.floor(frequencyData.length / barCount), 1);
+  return Array.from({ length: barCount }, (_, index) => {
+    const start = index * binsPerBar;
+    const bins = frequencyData.subarray(start, start + binsPerBar);
+    if (bins.length === 0) return 0;
+    let sum = 0;
+    bins.forEach((value) => {
+      sum += value;
+    });
+    return sum / bins.length / 255;
+  });
+}
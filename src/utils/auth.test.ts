@@ -0,0 +1,169 @@
+import {
+  fetchConnectionDetails,
+  getTokenExpiry,
+  scheduleTokenRefresh,
+  type ConnectionDetails,
+} from "./auth";
+import { AgentNotFoundError, AuthError } from "./errors";
+
+const REQUEST = { agentId: "agent_1", agentVersion: "v1" };
+
+// Builds an unsigned JWT; only the payload is ever read.
+function createToken(claims: Record<string, unknown>): string {
+  const payload = btoa(JSON.stringify(claims))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `header.${payload}.signature`;
+}
+
+function details(expiresAt: number): ConnectionDetails {
+  return {
+    serverUrl: "wss://example",
+    participantToken: createToken({ exp: expiresAt / 1000 }),
+  };
+}
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("getTokenExpiry", () => {
+  it("reads exp in milliseconds", () => {
+    expect(getTokenExpiry(createToken({ exp: 1_700_000_000 }))).toBe(
+      1_700_000_000_000,
+    );
+  });
+
+  it("ignores tokens without a readable exp", () => {
+    expect(getTokenExpiry("opaque")).toBeUndefined();
+    expect(getTokenExpiry("a.%%%.b")).toBeUndefined();
+    expect(getTokenExpiry(createToken({ sub: "user" }))).toBeUndefined();
+  });
+});
+
+describe("fetchConnectionDetails", () => {
+  it("asks the token provider for the requested agent", async () => {
+    const getToken = jest.fn(async () => "token");
+
+    await expect(
+      fetchConnectionDetails({ ...REQUEST, getToken, serverUrl: "wss://x" }),
+    ).resolves.toEqual({ serverUrl: "wss://x", participantToken: "token" });
+    expect(getToken).toHaveBeenCalledWith(REQUEST);
+  });
+
+  it("rejects incomplete connection details", async () => {
+    await expect(
+      fetchConnectionDetails({
+        ...REQUEST,
+        getConnectionDetails: async () =>
+          ({ serverUrl: "wss://x" }) as ConnectionDetails,
+      }),
+    ).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("maps a failed signed URL request to a typed error", async () => {
+    globalThis.fetch = jest.fn(async () => ({
+      ok: false,
+      status: 404,
+      text: async () => "no such agent",
+    })) as unknown as typeof fetch;
+
+    await expect(
+      fetchConnectionDetails({ ...REQUEST, signedUrl: "https://x/signed" }),
+    ).rejects.toBeInstanceOf(AgentNotFoundError);
+  });
+
+  it("needs some form of credentials", async () => {
+    await expect(fetchConnectionDetails(REQUEST)).rejects.toBeInstanceOf(
+      AuthError,
+    );
+  });
+});
+
+describe("scheduleTokenRefresh", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("refreshes a minute before the token expires and keeps going", async () => {
+    const onRefresh = jest.fn();
+    const getConnectionDetails = jest
+      .fn()
+      .mockResolvedValueOnce(details(300_000))
+      .mockResolvedValueOnce(details(500_000));
+    const cancel = scheduleTokenRefresh(
+      { ...REQUEST, getConnectionDetails },
+      details(120_000),
+      onRefresh,
+      jest.fn(),
+    );
+
+    await jest.advanceTimersByTimeAsync(59_999);
+    expect(getConnectionDetails).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(getConnectionDetails).toHaveBeenCalledWith(REQUEST);
+    expect(onRefresh).toHaveBeenCalledWith(details(300_000));
+
+    await jest.advanceTimersByTimeAsync(180_000);
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+    cancel();
+  });
+
+  it("reports refresh failures", async () => {
+    const onError = jest.fn();
+    scheduleTokenRefresh(
+      {
+        ...REQUEST,
+        getToken: async () => {
+          throw new Error("provider down");
+        },
+        serverUrl: "wss://x",
+      },
+      details(60_000),
+      jest.fn(),
+      onError,
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "provider down" }),
+    );
+  });
+
+  it("stops after cancel", async () => {
+    const getConnectionDetails = jest.fn();
+    const cancel = scheduleTokenRefresh(
+      { ...REQUEST, getConnectionDetails },
+      details(120_000),
+      jest.fn(),
+      jest.fn(),
+    );
+
+    cancel();
+    await jest.advanceTimersByTimeAsync(120_000);
+
+    expect(getConnectionDetails).not.toHaveBeenCalled();
+  });
+
+  it("does nothing for credentials that cannot be refreshed", async () => {
+    const onRefresh = jest.fn();
+    scheduleTokenRefresh(
+      { ...REQUEST, apiKey: "key" },
+      details(60_000),
+      onRefresh,
+      jest.fn(),
+    );
+
+    await jest.advanceTimersByTimeAsync(120_000);
+
+    expect(onRefresh).not.toHaveBeenCalled();
+  });
+});
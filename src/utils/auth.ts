@@ -0,0 +1,177 @@
+import { AuthError, errorFromResponse, toVoxError } from "./errors";
+
+export type ConnectionDetails = {
+  serverUrl: string;
+  participantToken: string;
+  roomName?: string;
+  participantName?: string;
+};
+
+export type ApiKeyAuth = {
+  apiKey: string;
+};
+
+/** Token provider가 받는 요청. 연결할 agent에 맞는 token을 발급하는 데 사용합니다. */
+export type AuthRequest = {
+  agentId: string;
+  agentVersion?: string;
+};
+
+export type ConnectionDetailsAuth = {
+  getConnectionDetails: (request: AuthRequest) => Promise<ConnectionDetails>;
+};
+
+export type TokenAuth = {
+  getToken: (request: AuthRequest) => Promise<string>;
+  serverUrl: string;
+};
+
+export type SignedUrlAuth = {
+  signedUrl: string;
+};
+
+export type SessionAuth =
+  ApiKeyAuth | ConnectionDetailsAuth | TokenAuth | SignedUrlAuth;
+
+type SessionAuthFields = Partial<
+  ApiKeyAuth & ConnectionDetailsAuth & TokenAuth & SignedUrlAuth
+>;
+
+export type ResolvedSessionAuth =
+  { apiKey: string } | { connectionDetails: ConnectionDetails };
+
+const AUTH_KEYS = [
+  "apiKey",
+  "getConnectionDetails",
+  "getToken",
+  "serverUrl",
+  "signedUrl",
+] as const;
+
+type AuthKey = (typeof AUTH_KEYS)[number];
+
+// Refresh this long before `exp` so a reconnect never races an expiring token.
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+export function omitAuth<T extends object>(params: T): Omit<T, AuthKey> {
+  const rest = { ...params } as Record<string, unknown>;
+  AUTH_KEYS.forEach((key) => delete rest[key]);
+  return rest as Omit<T, AuthKey>;
+}
+
+export function canRefreshAuth(auth: SessionAuthFields): boolean {
+  return Boolean(auth.getConnectionDetails || auth.getToken);
+}
+
+// Token providers are told which agent the credentials are for, so a handoff
+// gets a token for the agent it connects to rather than the previous one.
+export async function fetchConnectionDetails(
+  auth: SessionAuthFields & AuthRequest,
+): Promise<ConnectionDetails> {
+  const request: AuthRequest = {
+    agentId: auth.agentId,
+    agentVersion: auth.agentVersion,
+  };
+
+  if (auth.getConnectionDetails) {
+    return assertConnectionDetails(await auth.getConnectionDetails(request));
+  }
+
+  if (auth.getToken) {
+    const participantToken = await auth.getToken(request);
+    return assertConnectionDetails({
+      serverUrl: auth.serverUrl,
+      participantToken,
+    });
+  }
+
+  if (auth.signedUrl) {
+    const response = await fetch(auth.signedUrl, { method: "GET" });
+    if (!response.ok) {
+      throw await errorFromResponse(response, "Connection failed");
+    }
+    return assertConnectionDetails(await response.json());
+  }
+
+  throw new AuthError(
+    "Missing credentials: provide apiKey, getConnectionDetails, getToken or signedUrl",
+  );
+}
+
+export async function resolveSessionAuth(
+  auth: SessionAuthFields & AuthRequest,
+): Promise<ResolvedSessionAuth> {
+  if (auth.apiKey) {
+    return { apiKey: auth.apiKey };
+  }
+  return { connectionDetails: await fetchConnectionDetails(auth) };
+}
+
+/** Returns the `exp` claim of a LiveKit participant token in milliseconds. */
+export function getTokenExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const claims = JSON.parse(atob(padded));
+    return typeof claims.exp === "number" ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keeps `details` fresh by re-fetching them shortly before the participant
+ * token expires. Returns a function that cancels the pending refresh.
+ *
+ * The refreshed details are only for the next connection: the token is
+ * checked when a room is joined, so a live connection never needs a new one.
+ */
+export function scheduleTokenRefresh(
+  auth: SessionAuthFields & AuthRequest,
+  details: ConnectionDetails,
+  onRefresh: (details: ConnectionDetails) => void,
+  onError: (error: Error) => void,
+): () => void {
+  if (!canRefreshAuth(auth)) return () => undefined;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let cancelled = false;
+
+  const schedule = (current: ConnectionDetails) => {
+    const expiresAt = getTokenExpiry(current.participantToken);
+    if (expiresAt === undefined) return;
+
+    const delay = Math.max(expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+    timer = setTimeout(async () => {
+      try {
+        const next = await fetchConnectionDetails(auth);
+        if (cancelled) return;
+        onRefresh(next);
+        schedule(next);
+      } catch (err) {
+        if (cancelled) return;
+        onError(toVoxError(err));
+      }
+    }, delay);
+  };
+
+  schedule(details);
+
+  return () => {
+    cancelled = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+function assertConnectionDetails(value: unknown): ConnectionDetails {
+  const details = value as Partial<ConnectionDetails> | null;
+  if (!details?.serverUrl || !details.participantToken) {
+    throw new AuthError(
+      "Invalid connection details: serverUrl and participantToken are required",
+    );
+  }
+  return details as ConnectionDetails;
+}
@@ -0,0 +1,109 @@
+import { runClientTool, type ClientToolCall } from "./clientTools";
+import { ClientToolError } from "./errors";
+
+const CALL: ClientToolCall = {
+  toolCallId: "call_1",
+  toolName: "lookupOrder",
+  parameters: { orderId: "42" },
+};
+
+describe("runClientTool", () => {
+  it("passes the parameters and serializes the result", async () => {
+    const handler = jest.fn(async () => ({ status: "shipped" }));
+    const onError = jest.fn();
+
+    const result = await runClientTool(
+      { lookupOrder: handler },
+      CALL,
+      1000,
+      onError,
+    );
+
+    expect(handler).toHaveBeenCalledWith({ orderId: "42" });
+    expect(result).toEqual({
+      toolCallId: "call_1",
+      result: '{"status":"shipped"}',
+      isError: false,
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("sends strings as they are and nothing for undefined", async () => {
+    const text = await runClientTool(
+      { lookupOrder: () => "shipped" },
+      CALL,
+      1000,
+      jest.fn(),
+    );
+    const empty = await runClientTool(
+      { lookupOrder: () => undefined },
+      CALL,
+      1000,
+      jest.fn(),
+    );
+
+    expect(text.result).toBe("shipped");
+    expect(empty.result).toBe("");
+  });
+
+  it("reports an unknown tool to the agent and onError", async () => {
+    const onError = jest.fn();
+
+    const result = await runClientTool({}, CALL, 1000, onError);
+
+    expect(result).toEqual({
+      toolCallId: "call_1",
+      result: "Unknown client tool: lookupOrder",
+      isError: true,
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(ClientToolError));
+  });
+
+  it("wraps a throwing handler and keeps the original as cause", async () => {
+    const onError = jest.fn();
+    const cause = new Error("order service down");
+
+    const result = await runClientTool(
+      {
+        lookupOrder: () => {
+          throw cause;
+        },
+      },
+      CALL,
+      1000,
+      onError,
+    );
+
+    expect(result).toMatchObject({
+      result: "order service down",
+      isError: true,
+    });
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      toolName: "lookupOrder",
+      cause,
+    });
+  });
+
+  it("gives up on a handler that outlives the timeout", async () => {
+    jest.useFakeTimers();
+    try {
+      const onError = jest.fn();
+      const pending = runClientTool(
+        { lookupOrder: () => new Promise(() => undefined) },
+        CALL,
+        500,
+        onError,
+      );
+
+      await jest.advanceTimersByTimeAsync(500);
+
+      await expect(pending).resolves.toMatchObject({
+        result: 'Client tool "lookupOrder" timed out after 500ms',
+        isError: true,
+      });
+      expect(onError.mock.calls[0][0]).toMatchObject({ retryable: true });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
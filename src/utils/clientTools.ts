@@ -0,0 +1,105 @@
+import { ClientToolError } from "./errors";
+
+export type ClientToolParameters = Record<string, unknown>;
+
+export type ClientToolHandler = (
+  parameters: ClientToolParameters,
+) => unknown | Promise<unknown>;
+
+export type ClientTools = Record<string, ClientToolHandler>;
+
+export type ClientToolCall = {
+  toolCallId: string;
+  toolName: string;
+  parameters: ClientToolParameters;
+};
+
+export type ClientToolResult = {
+  toolCallId: string;
+  result: string;
+  isError: boolean;
+};
+
+/** `useConversation().toolCalls`에 기록되는 client tool 호출 */
+export type ClientToolCallRecord = ClientToolCall & {
+  startedAt: number;
+  /** Handler가 끝나기 전까지는 `undefined` */
+  completedAt?: number;
+  result?: string;
+  isError?: boolean;
+};
+
+export const DEFAULT_CLIENT_TOOL_TIMEOUT_MS = 10_000;
+
+/**
+ * Runs the handler registered for `call.toolName` and converts its outcome
+ * into the payload sent back to the agent. Failures never reject: they are
+ * reported through `onError` and returned to the agent as an error result.
+ */
+export async function runClientTool(
+  tools: ClientTools | undefined,
+  call: ClientToolCall,
+  timeoutMs: number,
+  onError: (error: ClientToolError) => void,
+): Promise<ClientToolResult> {
+  const handler = tools?.[call.toolName];
+
+  try {
+    if (!handler) {
+      throw new ClientToolError(
+        call.toolName,
+        `Unknown client tool: ${call.toolName}`,
+      );
+    }
+
+    const value = await withTimeout(
+      Promise.resolve().then(() => handler(call.parameters)),
+      timeoutMs,
+      () =>
+        new ClientToolError(
+          call.toolName,
+          `Client tool "${call.toolName}" timed out after ${timeoutMs}ms`,
+          { retryable: true },
+        ),
+    );
+
+    return {
+      toolCallId: call.toolCallId,
+      result: serializeToolResult(value),
+      isError: false,
+    };
+  } catch (err) {
+    const error =
+      err instanceof ClientToolError
+        ? err
+        : new ClientToolError(
+            call.toolName,
+            err instanceof Error ? err.message : String(err),
+            { cause: err },
+          );
+    onError(error);
+    return {
+      toolCallId: call.toolCallId,
+      result: error.message,
+      isError: true,
+    };
+  }
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  createError: () => Error,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(createError()), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function serializeToolResult(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
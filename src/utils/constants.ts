@@ -1,2 +0,0 @@
-export const HTTPS_API_ORIGIN = "https://api.tryvox.co/functions/v1/livekit-token";
-export const SDK_VERSION = "0.5.0";
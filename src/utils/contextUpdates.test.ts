@@ -0,0 +1,76 @@
+import {
+  createSystemMessage,
+  isConversationMessage,
+  MAX_CONTEXTUAL_UPDATE_LENGTH,
+  MAX_DYNAMIC_VARIABLES_LENGTH,
+  mergeDynamicVariables,
+  serializeContextualUpdate,
+  type DynamicVariables,
+} from "./contextUpdates";
+
+describe("serializeContextualUpdate", () => {
+  it("trims text and serializes objects", () => {
+    expect(serializeContextualUpdate("  User opened the cart  ")).toBe(
+      "User opened the cart",
+    );
+    expect(serializeContextualUpdate({ page: "cart", items: 2 })).toBe(
+      '{"page":"cart","items":2}',
+    );
+  });
+
+  it("rejects empty, oversized and unserializable updates", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => serializeContextualUpdate("   ")).toThrow("empty");
+    expect(() =>
+      serializeContextualUpdate("x".repeat(MAX_CONTEXTUAL_UPDATE_LENGTH + 1)),
+    ).toThrow(`the limit is ${MAX_CONTEXTUAL_UPDATE_LENGTH}`);
+    expect(() => serializeContextualUpdate(circular)).toThrow(
+      expect.objectContaining({ code: "invalid_argument" }),
+    );
+  });
+});
+
+describe("mergeDynamicVariables", () => {
+  it("overwrites changed keys and keeps the rest", () => {
+    expect(
+      mergeDynamicVariables({ name: "Kim", tier: "basic" }, { tier: "gold" }),
+    ).toEqual({ name: "Kim", tier: "gold" });
+  });
+
+  it("rejects empty updates and unsupported values", () => {
+    expect(() => mergeDynamicVariables({}, {})).toThrow("empty");
+    expect(() =>
+      mergeDynamicVariables({}, {
+        nested: { a: 1 },
+      } as unknown as DynamicVariables),
+    ).toThrow('Dynamic variable "nested" must be a string, number or boolean');
+    expect(() => mergeDynamicVariables({}, { count: NaN })).toThrow(
+      "finite number",
+    );
+  });
+
+  it("applies the size limit to the merged variables", () => {
+    const current = { notes: "x".repeat(MAX_DYNAMIC_VARIABLES_LENGTH - 20) };
+
+    expect(() =>
+      mergeDynamicVariables(current, { more: "y".repeat(20) }),
+    ).toThrow(`the limit is ${MAX_DYNAMIC_VARIABLES_LENGTH}`);
+  });
+});
+
+describe("createSystemMessage", () => {
+  it("creates a final system entry that is not a conversation message", () => {
+    const entry = createSystemMessage("dynamic_variables", "tier=gold", "a_1");
+
+    expect(entry).toMatchObject({
+      source: "system",
+      kind: "dynamic_variables",
+      text: "tier=gold",
+      isFinal: true,
+      agentId: "a_1",
+    });
+    expect(isConversationMessage(entry)).toBe(false);
+  });
+});
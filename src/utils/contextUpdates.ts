@@ -0,0 +1,121 @@
+import type { ConversationMessage } from "@vox-ai/client";
+import { VoxError } from "./errors";
+
+export type DynamicVariables = Record<string, string | number | boolean>;
+
+/** Text 또는 JSON으로 직렬화할 수 있는 객체 */
+export type ContextualUpdate = string | Record<string, unknown>;
+
+/**
+ * `showContextUpdates`를 켜면 `messages`에 추가되는 항목입니다.
+ * Agent에 전달된 context를 기록할 뿐, 사용자 턴을 만들지 않습니다.
+ */
+export type SystemMessage = {
+  id: string;
+  source: "system";
+  kind: "contextual_update" | "dynamic_variables";
+  text: string;
+  isFinal: true;
+  timestamp: number;
+};
+
+/** `messages`의 항목. `showContextUpdates`를 켜지 않으면 항상 `ConversationMessage`입니다. */
+export type ConversationEntry = (ConversationMessage | SystemMessage) & {
+  /** 메시지가 오갈 때 연결되어 있던 agent. `handoff` 후에도 이전 메시지는 이전 agent로 남음 */
+  agentId?: string;
+};
+
+/** `sendContextualUpdate`로 보낼 수 있는 최대 길이 (직렬화 후 문자 수) */
+export const MAX_CONTEXTUAL_UPDATE_LENGTH = 4000;
+/** Session의 dynamic variables 전체를 JSON으로 직렬화했을 때 최대 길이 */
+export const MAX_DYNAMIC_VARIABLES_LENGTH = 8000;
+
+export function isConversationMessage(
+  entry: ConversationEntry,
+): entry is ConversationMessage {
+  return entry.source !== "system";
+}
+
+export function serializeContextualUpdate(update: ContextualUpdate): string {
+  let text: string;
+  if (typeof update === "string") {
+    text = update.trim();
+  } else {
+    try {
+      text = JSON.stringify(update);
+    } catch (err) {
+      throw new VoxError(
+        "invalid_argument",
+        "Contextual update must be JSON serializable",
+        { cause: err },
+      );
+    }
+  }
+
+  if (!text) {
+    throw new VoxError("invalid_argument", "Contextual update is empty");
+  }
+  if (text.length > MAX_CONTEXTUAL_UPDATE_LENGTH) {
+    throw new VoxError(
+      "invalid_argument",
+      `Contextual update is ${text.length} characters; the limit is ${MAX_CONTEXTUAL_UPDATE_LENGTH}`,
+    );
+  }
+  return text;
+}
+
+/**
+ * Checks a partial update and returns the merged variables. The size limit
+ * applies to the merged result because that is what the agent ends up holding.
+ */
+export function mergeDynamicVariables(
+  current: DynamicVariables,
+  partial: DynamicVariables,
+): DynamicVariables {
+  const entries = Object.entries(partial);
+  if (entries.length === 0) {
+    throw new VoxError("invalid_argument", "Dynamic variables update is empty");
+  }
+  entries.forEach(([key, value]) => {
+    const type = typeof value;
+    if (type !== "string" && type !== "number" && type !== "boolean") {
+      throw new VoxError(
+        "invalid_argument",
+        `Dynamic variable "${key}" must be a string, number or boolean`,
+      );
+    }
+    if (type === "number" && !Number.isFinite(value)) {
+      throw new VoxError(
+        "invalid_argument",
+        `Dynamic variable "${key}" must be a finite number`,
+      );
+    }
+  });
+
+  const merged = { ...current, ...partial };
+  const length = JSON.stringify(merged).length;
+  if (length > MAX_DYNAMIC_VARIABLES_LENGTH) {
+    throw new VoxError(
+      "invalid_argument",
+      `Dynamic variables are ${length} characters as JSON; the limit is ${MAX_DYNAMIC_VARIABLES_LENGTH}`,
+    );
+  }
+  return merged;
+}
+
+export function createSystemMessage(
+  kind: SystemMessage["kind"],
+  text: string,
+  agentId?: string,
+): ConversationEntry {
+  const timestamp = Date.now();
+  return {
+    agentId,
+    id: `system-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    source: "system",
+    kind,
+    text,
+    isFinal: true,
+    timestamp,
+  };
+}
@@ -0,0 +1,34 @@
+import { VoxError } from "./errors";
+
+export type DtmfOptions = {
+  /** 각 숫자를 보낸 뒤 다음 숫자까지 기다리는 시간 (default: `100`) */
+  intervalMs?: number;
+  /** 보낸 숫자를 사용자 메시지로 `messages`에 추가할지 여부 (default: `false`) */
+  addToMessages?: boolean;
+};
+
+export const DEFAULT_DTMF_INTERVAL_MS = 100;
+
+const DTMF_DIGITS = /^[0-9*#]+$/;
+
+/** Splits a keypad sequence into digits, rejecting anything a phone can't dial. */
+export function parseDtmfDigits(digits: string): string[] {
+  if (!DTMF_DIGITS.test(digits)) {
+    throw new VoxError(
+      "invalid_argument",
+      `DTMF digits must be 0-9, * or #, got "${digits}"`,
+    );
+  }
+  return digits.split("");
+}
+
+export function resolveDtmfInterval(intervalMs: number | undefined): number {
+  const interval = intervalMs ?? DEFAULT_DTMF_INTERVAL_MS;
+  if (!Number.isFinite(interval) || interval < 0) {
+    throw new VoxError(
+      "invalid_argument",
+      `DTMF interval must be a non-negative number, got ${intervalMs}`,
+    );
+  }
+  return interval;
+}
@@ -0,0 +1,97 @@
+import {
+  AgentNotFoundError,
+  AuthError,
+  DeviceError,
+  errorFromResponse,
+  MicrophonePermissionError,
+  NetworkError,
+  QuotaExceededError,
+  toVoxError,
+  TransportError,
+  VoxError,
+} from "./errors";
+
+function namedError(name: string, message = name, status?: number) {
+  return Object.assign(new Error(message), { name, status });
+}
+
+describe("toVoxError", () => {
+  it("returns a VoxError unchanged", () => {
+    const error = new AuthError("bad key");
+
+    expect(toVoxError(error)).toBe(error);
+  });
+
+  it.each([
+    [namedError("ConnectionError", "unauthorized", 401), AuthError],
+    [namedError("ConnectionError", "could not connect"), TransportError],
+    [namedError("NegotiationError"), TransportError],
+    [namedError("DeviceUnsupportedError"), DeviceError],
+    [namedError("NotReadableError"), DeviceError],
+    [namedError("TimeoutError"), NetworkError],
+    [new TypeError("Failed to fetch"), NetworkError],
+  ])("maps %s to the matching class", (error, ErrorClass) => {
+    const converted = toVoxError(error);
+
+    expect(converted).toBeInstanceOf(ErrorClass);
+    expect(converted.message).toBe(error.message);
+    expect(converted.cause).toBe(error);
+  });
+
+  it("keeps the HTTP status of a LiveKit error", () => {
+    expect(
+      toVoxError(namedError("ConnectionError", "forbidden", 403)),
+    ).toMatchObject({ code: "auth_invalid", httpStatus: 403 });
+  });
+
+  it("treats a blocked getUserMedia as a denied permission", () => {
+    const converted = toVoxError(namedError("NotAllowedError"));
+
+    expect(converted).toBeInstanceOf(MicrophonePermissionError);
+    expect(converted.code).toBe("microphone_permission_denied");
+  });
+
+  it("wraps unknown errors and non-errors", () => {
+    const error = new Error("boom");
+
+    expect(toVoxError(error)).toMatchObject({
+      code: "unknown",
+      message: "boom",
+      cause: error,
+    });
+    expect(toVoxError("plain string")).toMatchObject({
+      code: "unknown",
+      message: "plain string",
+    });
+  });
+});
+
+describe("errorFromResponse", () => {
+  function response(status: number, body = "") {
+    return { status, text: async () => body } as Response;
+  }
+
+  it.each([
+    [401, AuthError],
+    [404, AgentNotFoundError],
+    [402, QuotaExceededError],
+    [503, NetworkError],
+    [400, VoxError],
+  ])("maps HTTP %i to the matching class", async (status, ErrorClass) => {
+    const error = await errorFromResponse(response(status), "Request failed");
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.httpStatus).toBe(status);
+  });
+
+  it("marks rate limits as retryable and includes the body", async () => {
+    const error = await errorFromResponse(
+      response(429, "slow down"),
+      "Connection failed",
+    );
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.retryable).toBe(true);
+    expect(error.message).toBe("Connection failed (429): slow down");
+  });
+});
@@ -0,0 +1,251 @@
+import type { MicrophonePermission } from "./permissions";
+
+/**
+ * `VoxError.code` 값. `onError`에서 message 대신 code로 분기할 수 있습니다.
+ *
+ * - `auth_invalid`: API key, token, signed URL이 없거나 유효하지 않음
+ * - `agent_not_found`: `agentId`/`agentVersion`에 해당하는 agent가 없음
+ * - `quota_exceeded`: 사용량 한도 초과 또는 rate limit
+ * - `network`: 네트워크 연결 실패 또는 서버 오류
+ * - `microphone_permission_denied` / `microphone_permission_dismissed` / `microphone_unavailable`: 마이크 권한 문제
+ * - `device_error`: 오디오 디바이스를 열거나 전환할 수 없음
+ * - `transport_error`: LiveKit (WebRTC) 연결 오류
+ * - `tool_failed`: Client tool handler가 실패했거나 시간 초과됨
+ * - `invalid_state`: 현재 session 상태에서 허용되지 않는 호출
+ * - `invalid_argument`: 메서드에 잘못된 값을 전달함
+ * - `aborted`: `signal`, `endSession` 또는 더 나중의 `startSession` 호출로 `startSession`이 취소됨
+ * - `unknown`: 분류되지 않은 오류 (`cause`에 원본 오류)
+ */
+export type VoxErrorCode =
+  | "auth_invalid"
+  | "agent_not_found"
+  | "quota_exceeded"
+  | "network"
+  | "microphone_permission_denied"
+  | "microphone_permission_dismissed"
+  | "microphone_unavailable"
+  | "device_error"
+  | "transport_error"
+  | "tool_failed"
+  | "invalid_state"
+  | "invalid_argument"
+  | "aborted"
+  | "unknown";
+
+export type MicrophonePermissionErrorCode = Extract<
+  VoxErrorCode,
+  `microphone_${string}`
+>;
+
+export type VoxErrorOptions = {
+  httpStatus?: number;
+  retryable?: boolean;
+  cause?: unknown;
+};
+
+/** 이 라이브러리가 `onError`로 전달하거나 throw하는 모든 오류의 base class입니다. */
+export class VoxError extends Error {
+  readonly code: VoxErrorCode;
+  /** 서버 응답에서 비롯된 오류의 HTTP status */
+  readonly httpStatus?: number;
+  /** 같은 요청을 다시 시도하면 성공할 수 있는지 여부 */
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    code: VoxErrorCode,
+    message: string,
+    { httpStatus, retryable = false, cause }: VoxErrorOptions = {},
+  ) {
+    super(message);
+    this.name = "VoxError";
+    this.code = code;
+    this.httpStatus = httpStatus;
+    this.retryable = retryable;
+    this.cause = cause;
+    // Keeps `instanceof` working when compiled down to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class AuthError extends VoxError {
+  constructor(message: string, options?: Omit<VoxErrorOptions, "retryable">) {
+    super("auth_invalid", message, options);
+    this.name = "AuthError";
+  }
+}
+
+export class AgentNotFoundError extends VoxError {
+  constructor(message: string, options?: Omit<VoxErrorOptions, "retryable">) {
+    super("agent_not_found", message, options);
+    this.name = "AgentNotFoundError";
+  }
+}
+
+export class QuotaExceededError extends VoxError {
+  constructor(message: string, options?: VoxErrorOptions) {
+    super("quota_exceeded", message, options);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class NetworkError extends VoxError {
+  constructor(message: string, options?: Omit<VoxErrorOptions, "retryable">) {
+    super("network", message, { ...options, retryable: true });
+    this.name = "NetworkError";
+  }
+}
+
+export class DeviceError extends VoxError {
+  constructor(message: string, options?: Omit<VoxErrorOptions, "retryable">) {
+    super("device_error", message, options);
+    this.name = "DeviceError";
+  }
+}
+
+export class TransportError extends VoxError {
+  constructor(message: string, options?: VoxErrorOptions) {
+    super("transport_error", message, { retryable: true, ...options });
+    this.name = "TransportError";
+  }
+}
+
+type DeniedMicrophonePermission = Exclude<MicrophonePermission, "granted">;
+
+const MICROPHONE_PERMISSION_ERRORS: Record<
+  DeniedMicrophonePermission,
+  { code: MicrophonePermissionErrorCode; message: string }
+> = {
+  denied: {
+    code: "microphone_permission_denied",
+    message: "Microphone permission was denied",
+  },
+  prompt: {
+    code: "microphone_permission_dismissed",
+    message: "Microphone permission prompt was dismissed",
+  },
+  unavailable: {
+    code: "microphone_unavailable",
+    message: "No microphone is available",
+  },
+};
+
+/** 마이크 권한을 얻지 못해 `startSession`이 실패했을 때 throw됩니다. */
+export class MicrophonePermissionError extends VoxError {
+  declare readonly code: MicrophonePermissionErrorCode;
+  readonly permission: DeniedMicrophonePermission;
+
+  constructor(
+    permission: DeniedMicrophonePermission,
+    options?: Pick<VoxErrorOptions, "cause">,
+  ) {
+    const { code, message } = MICROPHONE_PERMISSION_ERRORS[permission];
+    // A dismissed prompt can simply be shown again.
+    super(code, message, { ...options, retryable: permission === "prompt" });
+    this.name = "MicrophonePermissionError";
+    this.permission = permission;
+  }
+}
+
+export class ClientToolError extends VoxError {
+  readonly toolName: string;
+
+  constructor(
+    toolName: string,
+    message: string,
+    options?: Omit<VoxErrorOptions, "httpStatus">,
+  ) {
+    super("tool_failed", message, options);
+    this.name = "ClientToolError";
+    this.toolName = toolName;
+  }
+}
+
+/** Maps a failed HTTP response from the vox.ai API to the matching error. */
+export async function errorFromResponse(
+  response: Response,
+  context: string,
+): Promise<VoxError> {
+  const text = await response.text().catch(() => "");
+  const message = `${context} (${response.status})${text ? `: ${text}` : ""}`;
+  const options = { httpStatus: response.status };
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthError(message, options);
+    case 404:
+      return new AgentNotFoundError(message, options);
+    case 402:
+      return new QuotaExceededError(message, options);
+    case 429:
+      return new QuotaExceededError(message, { ...options, retryable: true });
+    default:
+      return response.status >= 500
+        ? new NetworkError(message, options)
+        : new VoxError("unknown", message, options);
+  }
+}
+
+const LIVEKIT_TRANSPORT_ERRORS = new Set([
+  "ConnectionError",
+  "NegotiationError",
+  "PublishDataError",
+  "PublishTrackError",
+  "SignalReconnectError",
+  "UnexpectedConnectionState",
+  "UnsupportedServer",
+]);
+
+const LIVEKIT_DEVICE_ERRORS = new Set([
+  "DeviceUnsupportedError",
+  "TrackInvalidError",
+]);
+
+/**
+ * Normalizes anything thrown by `@vox-ai/client`, LiveKit, `getUserMedia` or
+ * `fetch` into a `VoxError`, keeping the original as `cause`. LiveKit is not
+ * a direct dependency, so its errors are recognized by name.
+ */
+export function toVoxError(error: unknown): VoxError {
+  if (error instanceof VoxError) return error;
+  if (!(error instanceof Error)) {
+    return new VoxError("unknown", String(error), { cause: error });
+  }
+
+  const { name, message } = error;
+  const httpStatus = (error as { status?: unknown }).status;
+  const options = {
+    cause: error,
+    httpStatus: typeof httpStatus === "number" ? httpStatus : undefined,
+  };
+
+  if (
+    name === "ConnectionError" &&
+    (httpStatus === 401 || httpStatus === 403)
+  ) {
+    return new AuthError(message, options);
+  }
+  if (LIVEKIT_TRANSPORT_ERRORS.has(name)) {
+    return new TransportError(message, options);
+  }
+  if (LIVEKIT_DEVICE_ERRORS.has(name)) {
+    return new DeviceError(message, options);
+  }
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new MicrophonePermissionError("denied", { cause: error });
+    case "NotReadableError":
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new DeviceError(message, options);
+    case "TimeoutError":
+      return new NetworkError(message, options);
+  }
+  // `fetch` rejects with a bare TypeError when the request never completes.
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new NetworkError(message, options);
+  }
+  return new VoxError("unknown", message, options);
+}
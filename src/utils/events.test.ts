@@ -0,0 +1,76 @@
+import { createEventEmitter } from "./events";
+
+type Events = {
+  ping: number;
+  pong: string;
+};
+
+describe("createEventEmitter", () => {
+  it("calls handlers in subscription order until they unsubscribe", () => {
+    const emitter = createEventEmitter<Events>();
+    const calls: string[] = [];
+    const unsubscribe = emitter.on("ping", (value) => calls.push(`a${value}`));
+    const second = (value: number) => calls.push(`b${value}`);
+    emitter.on("ping", second);
+
+    emitter.emit("ping", 1);
+    unsubscribe();
+    emitter.emit("ping", 2);
+    emitter.off("ping", second);
+    emitter.emit("ping", 3);
+
+    expect(calls).toEqual(["a1", "b1", "b2"]);
+  });
+
+  it("keeps other events separate", () => {
+    const emitter = createEventEmitter<Events>();
+    const handler = jest.fn();
+    emitter.on("pong", handler);
+
+    emitter.emit("ping", 1);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("reaches every handler when one unsubscribes itself", () => {
+    const emitter = createEventEmitter<Events>();
+    const last = jest.fn();
+    const unsubscribe = emitter.on("ping", () => unsubscribe());
+    emitter.on("ping", last);
+
+    emitter.emit("ping", 1);
+
+    expect(last).toHaveBeenCalledWith(1);
+  });
+
+  it("passes handler errors to onHandlerError and keeps going", () => {
+    const onHandlerError = jest.fn();
+    const emitter = createEventEmitter<Events>(onHandlerError);
+    const error = new Error("handler failed");
+    const last = jest.fn();
+    emitter.on("ping", () => {
+      throw error;
+    });
+    emitter.on("ping", last);
+
+    emitter.emit("ping", 1);
+
+    expect(onHandlerError).toHaveBeenCalledWith(error, "ping");
+    expect(last).toHaveBeenCalledWith(1);
+  });
+
+  it("rethrows handler errors asynchronously by default", () => {
+    jest.useFakeTimers();
+    try {
+      const emitter = createEventEmitter<Events>();
+      emitter.on("ping", () => {
+        throw new Error("handler failed");
+      });
+
+      expect(() => emitter.emit("ping", 1)).not.toThrow();
+      expect(() => jest.runAllTimers()).toThrow("handler failed");
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,59 @@
+export type EventHandler<T> = (payload: T) => void;
+
+export interface EventEmitter<Events> {
+  /** Handler를 등록합니다. 반환된 함수를 호출하면 해제됩니다. */
+  on<K extends keyof Events>(
+    event: K,
+    handler: EventHandler<Events[K]>,
+  ): () => void;
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void;
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void;
+}
+
+/** Reports an error on a fresh stack, where the host's error reporting sees it. */
+export function rethrowAsync(error: unknown): void {
+  setTimeout(() => {
+    throw error;
+  });
+}
+
+/**
+ * A minimal typed emitter. A throwing handler doesn't stop the others, since
+ * the emit sites are connection callbacks that must not fail; its error goes
+ * to `onHandlerError` (rethrown asynchronously by default).
+ */
+export function createEventEmitter<Events>(
+  onHandlerError: (error: unknown, event: keyof Events) => void = rethrowAsync,
+): EventEmitter<Events> {
+  const handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+
+  const off: EventEmitter<Events>["off"] = (event, handler) => {
+    handlers.get(event)?.delete(handler);
+  };
+
+  return {
+    on(event, handler) {
+      let set = handlers.get(event);
+      if (!set) {
+        set = new Set();
+        handlers.set(event, set);
+      }
+      set.add(handler);
+      return () => off(event, handler);
+    },
+    off,
+    emit(event, payload) {
+      // Copied so handlers that unsubscribe themselves don't skip others.
+      const current = Array.from(handlers.get(event) ?? []) as EventHandler<
+        Events[typeof event]
+      >[];
+      current.forEach((handler) => {
+        try {
+          handler(payload);
+        } catch (err) {
+          onHandlerError(err, event);
+        }
+      });
+    },
+  };
+}
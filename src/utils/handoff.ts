@@ -0,0 +1,80 @@
+import type { ConversationMessage } from "@vox-ai/client";
+import type { SessionAuth } from "./auth";
+import {
+  isConversationMessage,
+  MAX_CONTEXTUAL_UPDATE_LENGTH,
+  type ConversationEntry,
+  type DynamicVariables,
+} from "./contextUpdates";
+import { exportTranscript } from "./transcript";
+
+export type AgentRef = {
+  agentId: string;
+  agentVersion?: string;
+};
+
+export type HandoffOptions = AgentRef & {
+  /**
+   * 다음 agent에 전달할 이전 메시지
+   * - `true`: 확정된 메시지 전체 (default)
+   * - `number`: 최근 N개
+   * - 함수: `true`를 반환한 메시지만
+   * - `false`: 전달하지 않음
+   */
+  carryMessages?: boolean | number | ((message: ConversationEntry) => boolean);
+  /** 현재 dynamic variables를 다음 agent에 그대로 전달할지 여부 (default: `true`) */
+  carryDynamicVariables?: boolean;
+  /** 다음 agent에 추가로 전달할 dynamic variables. 전달된 값 위에 덮어씀 */
+  dynamicVariables?: DynamicVariables;
+  /**
+   * 다음 agent 연결에 사용할 인증. 생략하면 `startSession`의 인증을 다시 사용하며,
+   * 일회성인 `signedUrl`로 시작한 session은 반드시 전달해야 함
+   */
+  auth?: SessionAuth;
+};
+
+export type AgentChange = {
+  from: AgentRef;
+  to: AgentRef;
+  /** 다음 agent에 전달한 메시지 */
+  carriedMessages: ConversationMessage[];
+};
+
+export function selectCarriedMessages(
+  entries: ConversationEntry[],
+  carry: HandoffOptions["carryMessages"] = true,
+): ConversationMessage[] {
+  if (carry === false) return [];
+  const messages = entries
+    .filter(isConversationMessage)
+    .filter((message) => message.isFinal);
+  if (carry === true) return messages;
+  if (typeof carry === "number") {
+    return carry > 0 ? messages.slice(-carry) : [];
+  }
+  return messages.filter(carry);
+}
+
+/**
+ * Renders carried messages as a contextual update for the next agent. When the
+ * transcript is longer than one update allows, the oldest lines are dropped
+ * since the latest exchange matters most for picking up the conversation.
+ */
+export function buildHandoffContext(
+  messages: ConversationMessage[],
+  from: AgentRef,
+): string {
+  const header = `Conversation so far with agent ${from.agentId}:`;
+  const lines = exportTranscript(messages, { format: "text" }).split("\n");
+  const budget = MAX_CONTEXTUAL_UPDATE_LENGTH - header.length - 1;
+
+  const kept: string[] = [];
+  let length = 0;
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const line = lines[index];
+    if (length + line.length + 1 > budget) break;
+    kept.unshift(line);
+    length += line.length + 1;
+  }
+  return [header, ...kept].join("\n");
+}
@@ -0,0 +1,116 @@
+import { isBrowser } from "./env";
+
+export type DevicePreferences = {
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+};
+
+export type MediaDeviceOption = {
+  deviceId: string;
+  groupId: string;
+  /** 권한이 없어 브라우저가 label을 숨긴 경우 `"마이크 1"` 같은 대체 이름 */
+  label: string;
+  /** 브라우저가 기본 디바이스로 지정한 항목인지 여부 */
+  isDefault: boolean;
+};
+
+export const DEFAULT_DEVICE_ID = "default";
+
+const PREFERENCES_KEY = "vox-ai:media-devices";
+
+const preferenceListeners = new Set<(preferences: DevicePreferences) => void>();
+
+export function loadDevicePreferences(): DevicePreferences {
+  if (!isBrowser()) return {};
+  try {
+    const raw = window.localStorage.getItem(PREFERENCES_KEY);
+    return raw ? (JSON.parse(raw) as DevicePreferences) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDevicePreferences(update: DevicePreferences) {
+  const preferences = { ...loadDevicePreferences(), ...update };
+  try {
+    window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage can be full or blocked (e.g. Safari private mode); the choice
+    // then only lasts for the current page.
+  }
+  preferenceListeners.forEach((listener) => listener(preferences));
+}
+
+/** Notifies every `useMediaDevices` instance when another one saves a choice. */
+export function subscribeDevicePreferences(
+  listener: (preferences: DevicePreferences) => void,
+): () => void {
+  preferenceListeners.add(listener);
+  return () => {
+    preferenceListeners.delete(listener);
+  };
+}
+
+export function supportsMediaDevices(): boolean {
+  return (
+    isBrowser() &&
+    typeof navigator.mediaDevices?.enumerateDevices === "function"
+  );
+}
+
+/** Safari and Firefox (by default) can't route audio to a chosen output. */
+export function supportsOutputSelection(): boolean {
+  return (
+    isBrowser() &&
+    typeof HTMLMediaElement !== "undefined" &&
+    "setSinkId" in HTMLMediaElement.prototype
+  );
+}
+
+function toOptions(
+  devices: MediaDeviceInfo[],
+  kind: MediaDeviceKind,
+  fallbackLabel: string,
+): MediaDeviceOption[] {
+  return devices
+    .filter((device) => device.kind === kind && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      groupId: device.groupId,
+      label: device.label || `${fallbackLabel} ${index + 1}`,
+      isDefault: device.deviceId === DEFAULT_DEVICE_ID,
+    }));
+}
+
+export async function listMediaDevices(): Promise<{
+  inputs: MediaDeviceOption[];
+  outputs: MediaDeviceOption[];
+  hasLabels: boolean;
+}> {
+  if (!supportsMediaDevices()) {
+    return { inputs: [], outputs: [], hasLabels: false };
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: toOptions(devices, "audioinput", "마이크"),
+    outputs: supportsOutputSelection()
+      ? toOptions(devices, "audiooutput", "스피커")
+      : [],
+    hasLabels: devices.some((device) => device.label !== ""),
+  };
+}
+
+/**
+ * Returns `preferred` when it is still plugged in, otherwise the browser
+ * default (or the first device) so a vanished device never leaves the
+ * session without audio.
+ */
+export function pickAvailableDevice(
+  devices: MediaDeviceOption[],
+  preferred: string | undefined,
+): string | undefined {
+  if (preferred && devices.some((device) => device.deviceId === preferred)) {
+    return preferred;
+  }
+  return (devices.find((device) => device.isDefault) ?? devices[0])?.deviceId;
+}
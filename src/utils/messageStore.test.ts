@@ -0,0 +1,93 @@
+import type { ConversationEntry } from "./contextUpdates";
+import { createMessageStore } from "./messageStore";
+
+function entry(id: string, timestamp: number, text = id): ConversationEntry {
+  return {
+    id,
+    source: "agent",
+    text,
+    isFinal: true,
+    timestamp,
+  } as ConversationEntry;
+}
+
+function ids(entries: ConversationEntry[]) {
+  return entries.map((message) => message.id);
+}
+
+describe("createMessageStore", () => {
+  it("orders by timestamp and keeps arrival order for ties", () => {
+    const store = createMessageStore();
+
+    store.upsert(entry("b", 200));
+    store.upsert(entry("a", 100));
+    store.upsert(entry("c", 200));
+
+    expect(ids(store.getSnapshot())).toEqual(["a", "b", "c"]);
+  });
+
+  it("replaces only the updated message", () => {
+    const store = createMessageStore();
+    store.upsert(entry("a", 100));
+    store.upsert(entry("b", 200, "Hel"));
+    const before = store.getSnapshot();
+    const untouched = store.getMessage("a");
+
+    store.upsert(entry("b", 200, "Hello"));
+
+    expect(store.getSnapshot()).not.toBe(before);
+    expect(store.getMessage("a")).toBe(untouched);
+    expect(store.getMessage("b")?.text).toBe("Hello");
+    expect(ids(store.getSnapshot())).toEqual(["a", "b"]);
+  });
+
+  it("moves a message whose timestamp changed", () => {
+    const store = createMessageStore();
+    store.upsert(entry("a", 100));
+    store.upsert(entry("b", 200));
+
+    store.upsert(entry("a", 300));
+
+    expect(ids(store.getSnapshot())).toEqual(["b", "a"]);
+  });
+
+  it("merges only unknown messages", () => {
+    const store = createMessageStore();
+    store.upsert(entry("a", 100, "live"));
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.merge([entry("a", 100, "stored"), entry("z", 50)]);
+    store.merge([entry("z", 50)]);
+
+    expect(ids(store.getSnapshot())).toEqual(["z", "a"]);
+    expect(store.getMessage("a")?.text).toBe("live");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("notifies subscribers until they unsubscribe", () => {
+    const store = createMessageStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.upsert(entry("a", 100));
+    store.reset();
+    unsubscribe();
+    store.upsert(entry("b", 200));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(store.has("a")).toBe(false);
+  });
+
+  it("keeps an empty store unchanged on reset", () => {
+    const store = createMessageStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const empty = store.getSnapshot();
+
+    store.reset();
+
+    expect(store.getSnapshot()).toBe(empty);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import type { ConversationEntry } from "./contextUpdates";
+
+/** `useConversation().messageStore`의 읽기 전용 interface입니다. */
+export interface ConversationMessageStore {
+  subscribe(listener: () => void): () => void;
+  /** Timestamp 순으로 정렬된 메시지. 변경될 때만 새 배열이 됩니다. */
+  getSnapshot(): ConversationEntry[];
+  /** 메시지 하나. 해당 메시지가 변경될 때만 새 객체가 됩니다. */
+  getMessage(id: string): ConversationEntry | undefined;
+}
+
+export interface MessageStore extends ConversationMessageStore {
+  has(id: string): boolean;
+  upsert(message: ConversationEntry): void;
+  /** Adds messages that aren't in the store yet, e.g. from persistence. */
+  merge(messages: ConversationEntry[]): void;
+  reset(): void;
+}
+
+const EMPTY: ConversationEntry[] = [];
+
+// Index of the first message that sorts after `timestamp`, so messages with
+// equal timestamps keep their arrival order.
+function insertionIndex(messages: ConversationEntry[], timestamp: number) {
+  let low = 0;
+  let high = messages.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (messages[mid].timestamp <= timestamp) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Keeps messages ordered by timestamp as they arrive. Streaming updates replace
+ * a single entry in place instead of re-sorting the whole transcript, and only
+ * the changed message gets a new identity, so `useMessage(id)` subscribers of
+ * other messages can skip re-rendering.
+ */
+export function createMessageStore(): MessageStore {
+  let messages = EMPTY;
+  const byId = new Map<string, ConversationEntry>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const insert = (next: ConversationEntry[], message: ConversationEntry) => {
+    next.splice(insertionIndex(next, message.timestamp), 0, message);
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => messages,
+    getMessage: (id) => byId.get(id),
+    has: (id) => byId.has(id),
+    upsert(message) {
+      const previous = byId.get(message.id);
+      const next = messages.slice();
+      if (previous) {
+        // Streaming updates almost always target the newest messages.
+        const index = next.lastIndexOf(previous);
+        if (previous.timestamp === message.timestamp) {
+          next[index] = message;
+        } else {
+          next.splice(index, 1);
+          insert(next, message);
+        }
+      } else {
+        insert(next, message);
+      }
+      byId.set(message.id, message);
+      messages = next;
+      notify();
+    },
+    merge(incoming) {
+      const added = incoming.filter((message) => !byId.has(message.id));
+      if (added.length === 0) return;
+      const next = messages.slice();
+      added.forEach((message) => {
+        byId.set(message.id, message);
+        insert(next, message);
+      });
+      messages = next;
+      notify();
+    },
+    reset() {
+      if (messages === EMPTY) return;
+      byId.clear();
+      messages = EMPTY;
+      notify();
+    },
+  };
+}
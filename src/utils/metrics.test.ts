@@ -0,0 +1,103 @@
+import type { ConversationMessage } from "@vox-ai/client";
+import { createMetricsTracker, type ConversationMetrics } from "./metrics";
+
+function setup() {
+  let time = 1000;
+  const events: ConversationMetrics[] = [];
+  const tracker = createMetricsTracker(
+    (event) => events.push(event),
+    () => time,
+  );
+  const at = (next: number) => {
+    time = next;
+  };
+  return { tracker, events, at };
+}
+
+function userMessage(isFinal: boolean): ConversationMessage {
+  return {
+    id: "m1",
+    source: "user",
+    text: "Hello",
+    isFinal,
+    timestamp: 0,
+  } as ConversationMessage;
+}
+
+describe("createMetricsTracker", () => {
+  it("measures the time to connect once", () => {
+    const { tracker, events, at } = setup();
+
+    at(1250);
+    tracker.connected();
+    at(1500);
+    tracker.connected();
+
+    expect(events).toEqual([{ type: "connected", timeToConnectMs: 250 }]);
+    expect(tracker.getStats().timeToConnectMs).toBe(250);
+  });
+
+  it("reports each agent turn with its response latency", () => {
+    const { tracker, events, at } = setup();
+    tracker.connected();
+
+    at(2000);
+    tracker.messageReceived(userMessage(true));
+    at(2400);
+    tracker.modeChanged("speaking");
+    at(3400);
+    tracker.modeChanged("listening");
+
+    expect(events[1]).toEqual({
+      type: "turn",
+      turn: {
+        index: 0,
+        startedAt: 2400,
+        endedAt: 3400,
+        responseLatencyMs: 400,
+        agentSpeakingMs: 1000,
+        interrupted: false,
+      },
+    });
+  });
+
+  it("flags a turn the user spoke over", () => {
+    const { tracker, at } = setup();
+    tracker.connected();
+
+    tracker.modeChanged("speaking");
+    tracker.messageReceived(userMessage(false));
+    at(1500);
+    tracker.modeChanged("listening");
+
+    expect(tracker.getStats()).toMatchObject({
+      turnCount: 1,
+      interruptionCount: 1,
+      averageResponseLatencyMs: undefined,
+    });
+  });
+
+  it("closes the open turn and sums the session on end", () => {
+    const { tracker, events, at } = setup();
+    tracker.connected();
+    tracker.reconnected();
+    at(1200);
+    tracker.modeChanged("speaking");
+
+    at(1800);
+    tracker.ended();
+    at(5000);
+    tracker.ended();
+
+    const ended = events.filter((event) => event.type === "session_ended");
+    expect(ended).toHaveLength(1);
+    expect(ended[0]).toMatchObject({
+      stats: {
+        sessionDurationMs: 800,
+        turnCount: 1,
+        reconnectCount: 1,
+        totalAgentSpeakingMs: 600,
+      },
+    });
+  });
+});
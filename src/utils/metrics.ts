@@ -0,0 +1,143 @@
+import type { ConversationMessage, ConversationMode } from "@vox-ai/client";
+
+export type TurnMetrics = {
+  /** Session 안에서 0부터 시작하는 agent 발화 순번 */
+  index: number;
+  /** Agent가 말하기 시작한 시각 (epoch ms) */
+  startedAt: number;
+  /** Agent가 말하기를 멈춘 시각 (epoch ms) */
+  endedAt: number;
+  /** 사용자의 발화 종료(최종 transcript)부터 agent 첫 음성까지 걸린 시간. agent가 먼저 말한 경우 `undefined` */
+  responseLatencyMs?: number;
+  /** Agent 발화 시간 */
+  agentSpeakingMs: number;
+  /** 사용자가 agent 발화 중에 끼어들었는지 여부 */
+  interrupted: boolean;
+};
+
+export type SessionStats = {
+  /** 마이크 권한 확인 이후 인증 요청과 연결 완료까지 걸린 시간. 권한 prompt를 기다린 시간은 제외 */
+  timeToConnectMs?: number;
+  /** 연결 완료부터 현재(또는 연결 종료)까지의 시간 */
+  sessionDurationMs: number;
+  turnCount: number;
+  interruptionCount: number;
+  reconnectCount: number;
+  averageResponseLatencyMs?: number;
+  totalAgentSpeakingMs: number;
+  turns: TurnMetrics[];
+};
+
+export type ConversationMetrics =
+  | { type: "connected"; timeToConnectMs: number }
+  | { type: "turn"; turn: TurnMetrics }
+  | { type: "session_ended"; stats: SessionStats };
+
+export type MetricsTracker = {
+  connected(): void;
+  reconnected(): void;
+  modeChanged(mode: ConversationMode): void;
+  messageReceived(message: ConversationMessage): void;
+  ended(): void;
+  getStats(): SessionStats;
+};
+
+/**
+ * Derives client-side latency and turn metrics from the status, mode and
+ * message callbacks of one session. `emit` receives each metric as soon as it
+ * is known; `getStats()` can be polled at any time.
+ */
+export function createMetricsTracker(
+  emit: (metrics: ConversationMetrics) => void,
+  now: () => number = Date.now,
+): MetricsTracker {
+  const requestedAt = now();
+  let connectedAt: number | undefined;
+  let endedAt: number | undefined;
+  let reconnectCount = 0;
+  let lastUserSpeechEndedAt: number | undefined;
+  let speakingSince: number | undefined;
+  let pendingLatencyMs: number | undefined;
+  let interrupted = false;
+  const turns: TurnMetrics[] = [];
+
+  const finishTurn = (at: number) => {
+    if (speakingSince === undefined) return;
+    const turn: TurnMetrics = {
+      index: turns.length,
+      startedAt: speakingSince,
+      endedAt: at,
+      responseLatencyMs: pendingLatencyMs,
+      agentSpeakingMs: at - speakingSince,
+      interrupted,
+    };
+    turns.push(turn);
+    speakingSince = undefined;
+    pendingLatencyMs = undefined;
+    interrupted = false;
+    emit({ type: "turn", turn });
+  };
+
+  const getStats = (): SessionStats => {
+    const latencies = turns
+      .map((turn) => turn.responseLatencyMs)
+      .filter((latency): latency is number => latency !== undefined);
+
+    return {
+      timeToConnectMs:
+        connectedAt === undefined ? undefined : connectedAt - requestedAt,
+      sessionDurationMs:
+        connectedAt === undefined ? 0 : (endedAt ?? now()) - connectedAt,
+      turnCount: turns.length,
+      interruptionCount: turns.filter((turn) => turn.interrupted).length,
+      reconnectCount,
+      averageResponseLatencyMs: latencies.length
+        ? latencies.reduce((sum, latency) => sum + latency, 0) /
+          latencies.length
+        : undefined,
+      totalAgentSpeakingMs: turns.reduce(
+        (sum, turn) => sum + turn.agentSpeakingMs,
+        0,
+      ),
+      turns: [...turns],
+    };
+  };
+
+  return {
+    connected() {
+      if (connectedAt !== undefined) return;
+      connectedAt = now();
+      emit({ type: "connected", timeToConnectMs: connectedAt - requestedAt });
+    },
+    reconnected() {
+      reconnectCount += 1;
+    },
+    modeChanged(mode) {
+      const at = now();
+      if (mode === "speaking") {
+        if (speakingSince !== undefined) return;
+        speakingSince = at;
+        pendingLatencyMs =
+          lastUserSpeechEndedAt === undefined
+            ? undefined
+            : at - lastUserSpeechEndedAt;
+        lastUserSpeechEndedAt = undefined;
+      } else {
+        finishTurn(at);
+      }
+    },
+    messageReceived(message) {
+      if (message.source !== "user") return;
+      // Any user transcript while the agent is talking means barge-in.
+      if (speakingSince !== undefined) interrupted = true;
+      if (message.isFinal) lastUserSpeechEndedAt = now();
+    },
+    ended() {
+      if (endedAt !== undefined) return;
+      endedAt = now();
+      finishTurn(endedAt);
+      emit({ type: "session_ended", stats: getStats() });
+    },
+    getStats,
+  };
+}
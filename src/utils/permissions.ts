@@ -0,0 +1,93 @@
+import { isBrowser } from "./env";
+
+/**
+ * - `prompt`: 아직 묻지 않았거나 사용자가 prompt를 닫음
+ * - `granted`: 허용됨
+ * - `denied`: 사용자 또는 브라우저 정책이 차단함
+ * - `unavailable`: 마이크가 없거나, HTTPS가 아니거나, 브라우저가 지원하지 않음
+ */
+export type MicrophonePermission =
+  "prompt" | "granted" | "denied" | "unavailable";
+
+function supportsGetUserMedia(): boolean {
+  return (
+    isBrowser() && typeof navigator.mediaDevices?.getUserMedia === "function"
+  );
+}
+
+/**
+ * Prompt 없이 현재 마이크 권한 상태를 조회합니다.
+ * Permissions API를 지원하지 않는 브라우저(구버전 Firefox/Safari)에서는 `"prompt"`를 반환합니다.
+ */
+export async function checkMicrophonePermission(): Promise<MicrophonePermission> {
+  if (!supportsGetUserMedia()) return "unavailable";
+  try {
+    const status = await navigator.permissions.query({
+      name: "microphone" as PermissionName,
+    });
+    return status.state;
+  } catch {
+    return "prompt";
+  }
+}
+
+/**
+ * 마이크 권한을 요청합니다. 얻은 stream은 즉시 정리되며, 결과 상태를 반환합니다.
+ */
+export async function requestMicrophonePermission(): Promise<MicrophonePermission> {
+  if (!supportsGetUserMedia()) return "unavailable";
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach((track) => track.stop());
+    return "granted";
+  } catch (err) {
+    return toMicrophonePermission(err);
+  }
+}
+
+/** Maps a `getUserMedia` rejection to the permission state it implies. */
+export function toMicrophonePermission(error: unknown): MicrophonePermission {
+  const name = error instanceof Error ? error.name : undefined;
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "denied";
+    case "NotFoundError":
+    case "NotReadableError":
+    case "OverconstrainedError":
+      return "unavailable";
+    default:
+      // Chrome reports a dismissed prompt as NotAllowedError too, but other
+      // browsers may reject with a generic error; asking again is still valid.
+      return "prompt";
+  }
+}
+
+/** Calls `listener` whenever the user changes the permission in browser settings. */
+export function subscribeMicrophonePermission(
+  listener: (permission: MicrophonePermission) => void,
+): () => void {
+  if (!supportsGetUserMedia()) return () => {};
+
+  let cancelled = false;
+  let status: PermissionStatus | undefined;
+  const handleChange = () => {
+    if (status) listener(status.state);
+  };
+
+  navigator.permissions
+    ?.query({ name: "microphone" as PermissionName })
+    .then((result) => {
+      if (cancelled) return;
+      status = result;
+      status.addEventListener("change", handleChange);
+    })
+    .catch(() => {
+      // Permissions API without microphone support: nothing to watch.
+    });
+
+  return () => {
+    cancelled = true;
+    status?.removeEventListener("change", handleChange);
+  };
+}
@@ -0,0 +1,150 @@
+import type { ConversationMessage } from "@vox-ai/client";
+
+export type StoredConversation = {
+  id: string;
+  agentId?: string;
+  startedAt: number;
+  updatedAt: number;
+  messages: ConversationMessage[];
+};
+
+export type StoredConversationSummary = Omit<StoredConversation, "messages"> & {
+  messageCount: number;
+};
+
+/**
+ * Transcript 저장소 adapter입니다.
+ * `createLocalStorageAdapter()`, `createIndexedDbAdapter()`를 사용하거나 직접 구현할 수 있습니다.
+ */
+export interface ConversationStorageAdapter {
+  get(conversationId: string): Promise<StoredConversation | undefined>;
+  set(conversation: StoredConversation): Promise<void>;
+  list(): Promise<StoredConversationSummary[]>;
+  remove(conversationId: string): Promise<void>;
+}
+
+export type LocalStorageAdapterOptions = {
+  /** localStorage key prefix (default: `"vox-ai:conversation:"`) */
+  keyPrefix?: string;
+};
+
+export type IndexedDbAdapterOptions = {
+  /** IndexedDB database 이름 (default: `"vox-ai"`) */
+  databaseName?: string;
+  /** Object store 이름 (default: `"conversations"`) */
+  storeName?: string;
+};
+
+function toSummary(
+  conversation: StoredConversation,
+): StoredConversationSummary {
+  const { messages, ...rest } = conversation;
+  return { ...rest, messageCount: messages.length };
+}
+
+function sortByRecent(summaries: StoredConversationSummary[]) {
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function createLocalStorageAdapter({
+  keyPrefix = "vox-ai:conversation:",
+}: LocalStorageAdapterOptions = {}): ConversationStorageAdapter {
+  const keyOf = (conversationId: string) => `${keyPrefix}${conversationId}`;
+
+  const read = (key: string): StoredConversation | undefined => {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as StoredConversation;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    async get(conversationId) {
+      return read(keyOf(conversationId));
+    },
+    async set(conversation) {
+      window.localStorage.setItem(
+        keyOf(conversation.id),
+        JSON.stringify(conversation),
+      );
+    },
+    async list() {
+      const summaries: StoredConversationSummary[] = [];
+      for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i);
+        if (!key?.startsWith(keyPrefix)) continue;
+        const conversation = read(key);
+        if (conversation) summaries.push(toSummary(conversation));
+      }
+      return sortByRecent(summaries);
+    },
+    async remove(conversationId) {
+      window.localStorage.removeItem(keyOf(conversationId));
+    },
+  };
+}
+
+export function createIndexedDbAdapter({
+  databaseName = "vox-ai",
+  storeName = "conversations",
+}: IndexedDbAdapterOptions = {}): ConversationStorageAdapter {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: "id" });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          databasePromise = null;
+          reject(request.error ?? new Error("Failed to open IndexedDB"));
+        };
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(
+        database.transaction(storeName, mode).objectStore(storeName),
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () =>
+        reject(request.error ?? new Error("IndexedDB request failed"));
+    });
+  };
+
+  return {
+    get(conversationId) {
+      return run<StoredConversation | undefined>("readonly", (store) =>
+        store.get(conversationId),
+      );
+    },
+    async set(conversation) {
+      await run("readwrite", (store) => store.put(conversation));
+    },
+    async list() {
+      const conversations = await run<StoredConversation[]>(
+        "readonly",
+        (store) => store.getAll(),
+      );
+      return sortByRecent(conversations.map(toSummary));
+    },
+    async remove(conversationId) {
+      await run("readwrite", (store) => store.delete(conversationId));
+    },
+  };
+}
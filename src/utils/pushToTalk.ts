@@ -0,0 +1,118 @@
+export type PushToTalkOptions = {
+  /**
+   * 누르고 있는 동안 말할 수 있는 키의 `KeyboardEvent.code`.
+   * `false`면 키보드 단축키를 사용하지 않음 (default: `"Space"`)
+   */
+  hotkey?: string | false;
+  /**
+   * 키/버튼을 놓으면 사용자 턴이 끝났다고 agent에 알릴지 여부 (default: `false`).
+   * Client가 지원하는 경우(`capabilities.endUserTurn`)에만 동작합니다.
+   */
+  signalTurnEnd?: boolean;
+};
+
+const DEFAULT_PUSH_TO_TALK_OPTIONS: Required<PushToTalkOptions> = {
+  hotkey: "Space",
+  signalTurnEnd: false,
+};
+
+export function resolvePushToTalkOptions(
+  pushToTalk: boolean | PushToTalkOptions | undefined,
+): Required<PushToTalkOptions> | null {
+  if (!pushToTalk) return null;
+  if (pushToTalk === true) return DEFAULT_PUSH_TO_TALK_OPTIONS;
+  return { ...DEFAULT_PUSH_TO_TALK_OPTIONS, ...pushToTalk };
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Calls `onStart` while `code` is held down anywhere on the page, except while
+ * typing in a form field. Losing window focus counts as a release because the
+ * matching `keyup` would never arrive.
+ */
+export function bindHotkey(
+  code: string,
+  onStart: () => void,
+  onStop: () => void,
+): () => void {
+  let held = false;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.code !== code || event.repeat || isEditable(event.target)) {
+      return;
+    }
+    event.preventDefault();
+    held = true;
+    onStart();
+  };
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (event.code !== code || !held) return;
+    held = false;
+    onStop();
+  };
+  const handleBlur = () => {
+    if (!held) return;
+    held = false;
+    onStop();
+  };
+
+  window.addEventListener("keydown", handleKeyDown);
+  window.addEventListener("keyup", handleKeyUp);
+  window.addEventListener("blur", handleBlur);
+  return () => {
+    window.removeEventListener("keydown", handleKeyDown);
+    window.removeEventListener("keyup", handleKeyUp);
+    window.removeEventListener("blur", handleBlur);
+    if (held) onStop();
+  };
+}
+
+/**
+ * Calls `onStart` while the pointer is pressed on `element`. Pointer capture
+ * keeps the release tracked even if the pointer slides off the element.
+ */
+export function bindHoldGesture(
+  element: HTMLElement,
+  onStart: () => void,
+  onStop: () => void,
+): () => void {
+  let pointerId: number | null = null;
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (pointerId !== null || event.button !== 0) return;
+    pointerId = event.pointerId;
+    element.setPointerCapture?.(event.pointerId);
+    onStart();
+  };
+  const handlePointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== pointerId) return;
+    pointerId = null;
+    onStop();
+  };
+  // Long presses on touch screens would otherwise open the context menu.
+  const preventContextMenu = (event: Event) => event.preventDefault();
+
+  element.addEventListener("pointerdown", handlePointerDown);
+  element.addEventListener("pointerup", handlePointerUp);
+  element.addEventListener("pointercancel", handlePointerUp);
+  element.addEventListener("contextmenu", preventContextMenu);
+  return () => {
+    element.removeEventListener("pointerdown", handlePointerDown);
+    element.removeEventListener("pointerup", handlePointerUp);
+    element.removeEventListener("pointercancel", handlePointerUp);
+    element.removeEventListener("contextmenu", preventContextMenu);
+    if (pointerId !== null) {
+      pointerId = null;
+      onStop();
+    }
+  };
+}
@@ -0,0 +1,82 @@
+export type ReconnectOptions = {
+  /** 최대 재연결 시도 횟수 (default: 5) */
+  maxAttempts?: number;
+  /** 첫 재시도 전 대기 시간 (default: 1000ms) */
+  initialDelayMs?: number;
+  /** 재시도 간 최대 대기 시간 (default: 30000ms) */
+  maxDelayMs?: number;
+  /** 재시도마다 대기 시간에 곱하는 값 (default: 2) */
+  backoffMultiplier?: number;
+  /** 대기 시간에 적용할 무작위 편차 비율, 0 ~ 1 (default: 0.3) */
+  jitter?: number;
+};
+
+export type ReconnectingInfo = {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+};
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: 0.3,
+};
+
+export function resolveReconnectOptions(
+  reconnect: boolean | ReconnectOptions | undefined,
+): Required<ReconnectOptions> | null {
+  if (!reconnect) return null;
+  if (reconnect === true) return DEFAULT_RECONNECT_OPTIONS;
+  return { ...DEFAULT_RECONNECT_OPTIONS, ...reconnect };
+}
+
+export function getReconnectDelay(
+  attempt: number,
+  options: Required<ReconnectOptions>,
+): number {
+  const base = Math.min(
+    options.initialDelayMs * options.backoffMultiplier ** (attempt - 1),
+    options.maxDelayMs,
+  );
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+  const offset = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(Math.round(base + offset), 0);
+}
+
+/**
+ * Retries `task` with exponential backoff until it succeeds, the attempts run
+ * out (the last error is thrown) or `isCancelled` returns true (resolves to
+ * `undefined`).
+ */
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: Required<ReconnectOptions>,
+  hooks: {
+    onAttempt?: (info: ReconnectingInfo) => void;
+    isCancelled: () => boolean;
+  },
+): Promise<T | undefined> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    const delayMs = getReconnectDelay(attempt, options);
+    hooks.onAttempt?.({ attempt, maxAttempts: options.maxAttempts, delayMs });
+
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    if (hooks.isCancelled()) return undefined;
+
+    try {
+      return await task(attempt);
+    } catch (err) {
+      lastError = err;
+      if (hooks.isCancelled()) return undefined;
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new Error(`Reconnection failed after ${options.maxAttempts} attempts`);
+}
@@ -0,0 +1,116 @@
+import { DeviceError } from "./errors";
+import { startRecorder } from "./recording";
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type === "audio/webm;codecs=opus";
+
+  state: RecordingState = "inactive";
+  readonly mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event & { error?: unknown }) => void) | null = null;
+
+  constructor(
+    readonly stream: MediaStream,
+    options: { mimeType?: string } = {},
+  ) {
+    this.mimeType = options.mimeType ?? "";
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = "recording";
+  }
+
+  stop() {
+    this.state = "inactive";
+    this.ondataavailable?.({ data: new Blob(["audio"]) });
+    this.onstop?.();
+  }
+
+  fail(error: unknown) {
+    this.state = "inactive";
+    this.onerror?.(Object.assign(new Event("error"), { error }));
+  }
+}
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  close = jest.fn(async () => undefined);
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createChannelMerger() {
+    return { connect: jest.fn() };
+  }
+
+  createMediaStreamDestination() {
+    return { stream: {} as MediaStream };
+  }
+
+  createMediaStreamSource() {
+    return { connect: jest.fn() };
+  }
+}
+
+const input = {} as MediaStream;
+const output = {} as MediaStream;
+
+beforeEach(() => {
+  FakeMediaRecorder.instances = [];
+  FakeAudioContext.instances = [];
+  Object.assign(globalThis, {
+    MediaRecorder: FakeMediaRecorder,
+    AudioContext: FakeAudioContext,
+  });
+});
+
+afterEach(() => {
+  const globals = globalThis as Record<string, unknown>;
+  delete globals.MediaRecorder;
+  delete globals.AudioContext;
+});
+
+describe("startRecorder", () => {
+  it("resolves with the recorded audio on stop", async () => {
+    const recorder = startRecorder({ input }, { source: "input" });
+
+    const audio = await recorder.stop();
+
+    expect(FakeMediaRecorder.instances[0].stream).toBe(input);
+    expect(audio).toMatchObject({
+      mimeType: "audio/webm;codecs=opus",
+      source: "input",
+      startedAt: recorder.startedAt,
+      truncated: false,
+    });
+    expect(audio.blob.size).toBe(5);
+  });
+
+  it("rejects done when the recorder fails", async () => {
+    const recorder = startRecorder({ input, output });
+    const cause = new Error("encoder crashed");
+
+    FakeMediaRecorder.instances[0].fail(cause);
+
+    await expect(recorder.done).rejects.toBeInstanceOf(DeviceError);
+    await expect(recorder.done).rejects.toMatchObject({ cause });
+    expect(FakeAudioContext.instances[0].close).toHaveBeenCalled();
+  });
+
+  it("closes the mixing context when the recorder cannot be created", () => {
+    expect(() =>
+      startRecorder({ input, output }, { mimeType: "audio/wav" }),
+    ).toThrow("Recording format is not supported: audio/wav");
+    expect(FakeAudioContext.instances[0].close).toHaveBeenCalled();
+  });
+
+  it("needs the streams for the requested source", () => {
+    expect(() => startRecorder({ input })).toThrow(DeviceError);
+    expect(FakeAudioContext.instances).toHaveLength(0);
+  });
+});
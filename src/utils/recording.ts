@@ -0,0 +1,221 @@
+import type { ConversationEntry } from "./contextUpdates";
+import { DeviceError, VoxError } from "./errors";
+
+export type RecordingSource = "input" | "output" | "mixed";
+
+export type RecordingOptions = {
+  /**
+   * - `"input"`: 사용자 마이크
+   * - `"output"`: agent 음성
+   * - `"mixed"`: 왼쪽 채널에 사용자, 오른쪽 채널에 agent를 담은 stereo (default)
+   */
+  source?: RecordingSource;
+  /** `MediaRecorder` mime type. 생략하면 브라우저가 지원하는 opus/mp4 형식을 선택 */
+  mimeType?: string;
+  /** 최대 녹음 시간. 넘으면 녹음을 멈추고 `truncated: true`로 반환 (default: 1시간) */
+  maxDurationMs?: number;
+  /** 최대 파일 크기(byte). 넘으면 녹음을 멈추고 `truncated: true`로 반환 (default: 100MB) */
+  maxBytes?: number;
+};
+
+export type RecordedAudio = {
+  blob: Blob;
+  mimeType: string;
+  source: RecordingSource;
+  /** 녹음 시작 시각 (epoch ms). `messages`의 `timestamp`와 같은 기준 */
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  /** 최대 시간/크기 제한에 걸려 중간에 멈췄는지 여부 */
+  truncated: boolean;
+};
+
+export type RecordingTimelineEntry = {
+  messageId: string;
+  source: ConversationEntry["source"];
+  text: string;
+  /** 녹음 시작부터의 시간 (ms) */
+  offsetMs: number;
+};
+
+/** `stopRecording()`과 `onRecordingComplete`가 반환하는 녹음 결과 */
+export type ConversationRecording = RecordedAudio & {
+  /** 녹음 구간의 확정된 메시지와 녹음 내 위치 */
+  timeline: RecordingTimelineEntry[];
+};
+
+export type Recorder = {
+  startedAt: number;
+  /** Stops recording; resolves with the same result as `done`. */
+  stop(): Promise<RecordedAudio>;
+  /**
+   * Resolves once recording stops for any reason, including a cap; rejects
+   * with a `DeviceError` if the recorder fails.
+   */
+  done: Promise<RecordedAudio>;
+};
+
+export const DEFAULT_RECORDING_MAX_DURATION_MS = 60 * 60 * 1000;
+export const DEFAULT_RECORDING_MAX_BYTES = 100 * 1024 * 1024;
+
+// Flush chunks regularly so the size cap is checked while recording.
+const TIMESLICE_MS = 1000;
+
+const PREFERRED_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+export function buildRecordingTimeline(
+  messages: ConversationEntry[],
+  { startedAt, endedAt }: Pick<RecordedAudio, "startedAt" | "endedAt">,
+): RecordingTimelineEntry[] {
+  return messages
+    .filter(
+      (message) =>
+        message.isFinal &&
+        message.timestamp >= startedAt &&
+        message.timestamp <= endedAt,
+    )
+    .map((message) => ({
+      messageId: message.id,
+      source: message.source,
+      text: message.text,
+      offsetMs: message.timestamp - startedAt,
+    }));
+}
+
+export function supportsRecording(): boolean {
+  return typeof MediaRecorder !== "undefined";
+}
+
+function pickMimeType(requested: string | undefined): string | undefined {
+  if (requested) {
+    if (!MediaRecorder.isTypeSupported(requested)) {
+      throw new VoxError(
+        "invalid_state",
+        `Recording format is not supported: ${requested}`,
+      );
+    }
+    return requested;
+  }
+  return PREFERRED_MIME_TYPES.find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  );
+}
+
+/** Puts the user on the left channel and the agent on the right one. */
+function mixToStereo(input: MediaStream, output: MediaStream) {
+  const context = new AudioContext();
+  const merger = context.createChannelMerger(2);
+  const destination = context.createMediaStreamDestination();
+  context.createMediaStreamSource(input).connect(merger, 0, 0);
+  context.createMediaStreamSource(output).connect(merger, 0, 1);
+  merger.connect(destination);
+  return { stream: destination.stream, close: () => void context.close() };
+}
+
+export function startRecorder(
+  streams: { input?: MediaStream; output?: MediaStream },
+  {
+    source = "mixed",
+    mimeType,
+    maxDurationMs = DEFAULT_RECORDING_MAX_DURATION_MS,
+    maxBytes = DEFAULT_RECORDING_MAX_BYTES,
+  }: RecordingOptions = {},
+): Recorder {
+  if (!supportsRecording()) {
+    throw new VoxError(
+      "invalid_state",
+      "MediaRecorder is not supported in this browser",
+    );
+  }
+  const needsInput = source !== "output";
+  const needsOutput = source !== "input";
+  if ((needsInput && !streams.input) || (needsOutput && !streams.output)) {
+    throw new DeviceError(`No ${source} audio stream is available to record`);
+  }
+
+  const mixed =
+    source === "mixed"
+      ? mixToStereo(streams.input as MediaStream, streams.output as MediaStream)
+      : undefined;
+  const stream =
+    mixed?.stream ??
+    ((source === "input" ? streams.input : streams.output) as MediaStream);
+
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(stream, { mimeType: pickMimeType(mimeType) });
+  } catch (err) {
+    mixed?.close();
+    throw err;
+  }
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+  let size = 0;
+  let truncated = false;
+
+  const stop = () => {
+    if (recorder.state !== "inactive") recorder.stop();
+  };
+  const capTimer = setTimeout(() => {
+    truncated = true;
+    stop();
+  }, maxDurationMs);
+
+  const done = new Promise<RecordedAudio>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      chunks.push(event.data);
+      size += event.data.size;
+      if (size >= maxBytes) {
+        truncated = true;
+        stop();
+      }
+    };
+    recorder.onstop = () => {
+      clearTimeout(capTimer);
+      mixed?.close();
+      const endedAt = Date.now();
+      resolve({
+        blob: new Blob(chunks, { type: recorder.mimeType }),
+        mimeType: recorder.mimeType,
+        source,
+        startedAt,
+        endedAt,
+        durationMs: endedAt - startedAt,
+        truncated,
+      });
+    };
+    // The recorder stops on an error, but the partial file isn't worth
+    // returning as if it were complete.
+    recorder.onerror = (event) => {
+      clearTimeout(capTimer);
+      mixed?.close();
+      reject(
+        new DeviceError("Recording failed", {
+          cause: (event as Event & { error?: unknown }).error ?? event,
+        }),
+      );
+    };
+  });
+
+  try {
+    recorder.start(TIMESLICE_MS);
+  } catch (err) {
+    clearTimeout(capTimer);
+    mixed?.close();
+    throw err;
+  }
+
+  return {
+    startedAt,
+    stop() {
+      stop();
+      return done;
+    },
+    done,
+  };
+}
@@ -0,0 +1,84 @@
+import { createSessionLimits } from "./sessionLimits";
+
+describe("createSessionLimits", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function setup(options: { idleTimeoutMs?: number; maxDurationMs?: number }) {
+    const onWarning = jest.fn();
+    const onExpire = jest.fn();
+    const limits = createSessionLimits(
+      { ...options, warningMs: 1000 },
+      { onWarning, onExpire },
+    );
+    return { limits, onWarning, onExpire };
+  }
+
+  it("warns before the idle timeout and then expires", () => {
+    const { onWarning, onExpire } = setup({ idleTimeoutMs: 5000 });
+
+    jest.advanceTimersByTime(4000);
+    expect(onWarning).toHaveBeenCalledWith({
+      reason: "idle_timeout",
+      remainingMs: 1000,
+    });
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(onExpire).toHaveBeenCalledWith("idle_timeout");
+  });
+
+  it("restarts the idle countdown on activity", () => {
+    const { limits, onExpire } = setup({ idleTimeoutMs: 5000 });
+
+    jest.advanceTimersByTime(4500);
+    limits.activity();
+    jest.advanceTimersByTime(4500);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(500);
+    expect(onExpire).toHaveBeenCalledWith("idle_timeout");
+  });
+
+  it("pushes the max duration back on extend", () => {
+    const { limits, onWarning, onExpire } = setup({ maxDurationMs: 5000 });
+
+    jest.advanceTimersByTime(4000);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    limits.extend(3000);
+    jest.advanceTimersByTime(3000);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    // The extended countdown warns again before its new deadline.
+    expect(onWarning).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(1000);
+    expect(onExpire).toHaveBeenCalledWith("max_duration");
+  });
+
+  it("expires only once when both limits are set", () => {
+    const { onExpire } = setup({ idleTimeoutMs: 3000, maxDurationMs: 3000 });
+
+    jest.advanceTimersByTime(10_000);
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing after stop", () => {
+    const { limits, onWarning, onExpire } = setup({
+      idleTimeoutMs: 3000,
+      maxDurationMs: 5000,
+    });
+
+    limits.stop();
+    limits.activity();
+    jest.advanceTimersByTime(10_000);
+
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
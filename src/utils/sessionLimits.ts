@@ -0,0 +1,125 @@
+export type SessionLimitReason = "idle_timeout" | "max_duration";
+
+export type SessionWarning = {
+  reason: SessionLimitReason;
+  /** 자동 종료까지 남은 시간 */
+  remainingMs: number;
+};
+
+/**
+ * `onDisconnect`로 전달되는 종료 이유
+ * - `"user"`: `endSession()` 호출
+ * - `"remote"`: agent 또는 서버가 연결을 끊음
+ * - `"idle_timeout"` / `"max_duration"`: `idleTimeoutMs` / `maxDurationMs`에 걸려 자동 종료
+ * - `"reconnect_failed"`: 자동 재연결이 모두 실패함
+ * - `"handoff_failed"`: `handoff()`로 이전 agent와의 연결을 닫은 뒤 새 agent에 연결하지 못함
+ */
+export type SessionEndReason =
+  | "user"
+  | "remote"
+  | "reconnect_failed"
+  | "handoff_failed"
+  | SessionLimitReason;
+
+export type DisconnectDetails = {
+  reason: SessionEndReason;
+};
+
+export type SessionLimitOptions = {
+  idleTimeoutMs?: number;
+  maxDurationMs?: number;
+  /** How long before expiry the warning fires. */
+  warningMs: number;
+};
+
+export type SessionLimits = {
+  /** Restarts the idle countdown. */
+  activity(): void;
+  /** Restarts the idle countdown and pushes the max-duration deadline back. */
+  extend(extraMs?: number): void;
+  stop(): void;
+};
+
+export const DEFAULT_SESSION_WARNING_MS = 30_000;
+
+type Countdown = {
+  deadline: number;
+  warnTimer?: ReturnType<typeof setTimeout>;
+  expireTimer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Runs the idle and max-duration countdowns of one session. Each countdown
+ * warns once, `warningMs` before its deadline, and then expires; restarting a
+ * countdown re-arms its warning.
+ */
+export function createSessionLimits(
+  { idleTimeoutMs, maxDurationMs, warningMs }: SessionLimitOptions,
+  handlers: {
+    onWarning: (warning: SessionWarning) => void;
+    onExpire: (reason: SessionLimitReason) => void;
+  },
+  now: () => number = Date.now,
+): SessionLimits {
+  const countdowns: Partial<Record<SessionLimitReason, Countdown>> = {};
+  let stopped = false;
+
+  const clear = (reason: SessionLimitReason) => {
+    const countdown = countdowns[reason];
+    if (!countdown) return;
+    clearTimeout(countdown.warnTimer);
+    clearTimeout(countdown.expireTimer);
+    delete countdowns[reason];
+  };
+
+  const arm = (reason: SessionLimitReason, deadline: number) => {
+    clear(reason);
+    if (stopped) return;
+    const remainingMs = deadline - now();
+    const countdown: Countdown = { deadline };
+
+    if (warningMs > 0 && remainingMs > 0) {
+      countdown.warnTimer = setTimeout(
+        () =>
+          handlers.onWarning({
+            reason,
+            remainingMs: Math.max(countdown.deadline - now(), 0),
+          }),
+        Math.max(remainingMs - warningMs, 0),
+      );
+    }
+    countdown.expireTimer = setTimeout(
+      () => {
+        stop();
+        handlers.onExpire(reason);
+      },
+      Math.max(remainingMs, 0),
+    );
+    countdowns[reason] = countdown;
+  };
+
+  const resetIdle = () => {
+    if (idleTimeoutMs !== undefined) arm("idle_timeout", now() + idleTimeoutMs);
+  };
+
+  const stop = () => {
+    stopped = true;
+    clear("idle_timeout");
+    clear("max_duration");
+  };
+
+  resetIdle();
+  if (maxDurationMs !== undefined) arm("max_duration", now() + maxDurationMs);
+
+  return {
+    activity: resetIdle,
+    extend(extraMs) {
+      resetIdle();
+      const maxDuration = countdowns.max_duration;
+      if (maxDuration && extraMs !== undefined && extraMs > 0) {
+        arm("max_duration", maxDuration.deadline + extraMs);
+      }
+    },
+    stop,
+  };
+}
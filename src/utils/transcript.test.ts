@@ -0,0 +1,111 @@
+import { VoxError } from "./errors";
+import {
+  exportTranscript,
+  type TranscriptFormat,
+  type TranscriptMessage,
+} from "./transcript";
+
+const STARTED_AT = 1_700_000_000_000;
+
+const MESSAGES: TranscriptMessage[] = [
+  {
+    id: "m2",
+    source: "agent",
+    text: "Hi <there> & welcome",
+    isFinal: true,
+    timestamp: STARTED_AT + 2000,
+  },
+  {
+    id: "m1",
+    source: "user",
+    text: "Hello",
+    isFinal: true,
+    timestamp: STARTED_AT,
+  },
+  {
+    id: "m3",
+    source: "user",
+    text: "I nee",
+    isFinal: false,
+    timestamp: STARTED_AT + 3000,
+  },
+  {
+    id: "t1",
+    source: "tool",
+    text: "lookup()",
+    isFinal: true,
+    timestamp: STARTED_AT + 4000,
+  },
+];
+
+describe("exportTranscript", () => {
+  it("writes final messages in time order as text", () => {
+    expect(exportTranscript(MESSAGES, { format: "text" })).toBe(
+      "[00:00] User: Hello\n[00:02] Agent: Hi <there> & welcome",
+    );
+  });
+
+  it("includes interim and tool messages on request", () => {
+    const text = exportTranscript(MESSAGES, {
+      format: "text",
+      includeInterim: true,
+      includeTools: true,
+    });
+
+    expect(text.split("\n")).toEqual([
+      "[00:00] User: Hello",
+      "[00:02] Agent: Hi <there> & welcome",
+      "[00:03] User: I nee",
+      "[00:04] Tool: lookup()",
+    ]);
+  });
+
+  it("measures offsets from sessionStartedAt", () => {
+    const json = JSON.parse(
+      exportTranscript(MESSAGES, {
+        format: "json",
+        sessionStartedAt: STARTED_AT - 61_000,
+      }),
+    );
+
+    expect(json.sessionStartedAt).toBe(STARTED_AT - 61_000);
+    expect(
+      json.messages.map(
+        ({ id, offsetMs }: { id: string; offsetMs: number }) => [id, offsetMs],
+      ),
+    ).toEqual([
+      ["m1", 61_000],
+      ["m2", 63_000],
+    ]);
+  });
+
+  it("renders markdown with speaker labels", () => {
+    expect(exportTranscript(MESSAGES, { format: "markdown" })).toBe(
+      "# Transcript\n\n" +
+        "**User** _[00:00]_: Hello\n\n" +
+        "**Agent** _[00:02]_: Hi <there> & welcome\n",
+    );
+  });
+
+  it("ends each caption at the next one and escapes WebVTT text", () => {
+    expect(exportTranscript(MESSAGES, { format: "vtt" })).toBe(
+      "WEBVTT\n\n" +
+        "1\n00:00:00.000 --> 00:00:02.000\n<v User>Hello\n\n" +
+        "2\n00:00:02.000 --> 00:00:07.000\n" +
+        "<v Agent>Hi &lt;there&gt; &amp; welcome\n",
+    );
+  });
+
+  it("uses comma milliseconds in SRT", () => {
+    expect(exportTranscript(MESSAGES, { format: "srt" })).toBe(
+      "1\n00:00:00,000 --> 00:00:02,000\nUser: Hello\n\n" +
+        "2\n00:00:02,000 --> 00:00:07,000\nAgent: Hi <there> & welcome\n",
+    );
+  });
+
+  it("rejects an unknown format", () => {
+    expect(() =>
+      exportTranscript(MESSAGES, { format: "pdf" as TranscriptFormat }),
+    ).toThrow(VoxError);
+  });
+});
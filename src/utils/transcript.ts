@@ -0,0 +1,191 @@
+import type { ConversationMessage } from "@vox-ai/client";
+import { VoxError } from "./errors";
+
+export type TranscriptFormat = "json" | "markdown" | "text" | "vtt" | "srt";
+
+export type TranscriptMessage = Pick<
+  ConversationMessage,
+  "id" | "text" | "isFinal" | "timestamp"
+> & {
+  source: string;
+};
+
+export type ExportTranscriptOptions = {
+  format: TranscriptFormat;
+  /** 시간 계산 기준 시각 (Unix ms). 미지정 시 첫 메시지 timestamp */
+  sessionStartedAt?: number;
+  /** 음성 인식 중간 결과(`isFinal: false`) 포함 여부 (default: `false`) */
+  includeInterim?: boolean;
+  /** Tool 메시지 포함 여부 (default: `false`) */
+  includeTools?: boolean;
+  /** `showContextUpdates`로 추가된 system 항목 포함 여부 (default: `false`) */
+  includeSystem?: boolean;
+};
+
+// Captions need an end time; the last cue (or a cue followed by a much later
+// one) is shown for at most this long.
+const MAX_CUE_DURATION_MS = 5000;
+const MIN_CUE_DURATION_MS = 500;
+
+const SOURCE_LABELS: Record<string, string> = {
+  user: "User",
+  agent: "Agent",
+  tool: "Tool",
+  system: "System",
+};
+
+type TimedMessage = TranscriptMessage & {
+  startMs: number;
+  endMs: number;
+};
+
+/**
+ * 메시지 배열을 지정한 형식의 transcript 문자열로 변환합니다.
+ *
+ * @example
+ * ```ts
+ * const vtt = exportTranscript(conversation.messages, { format: "vtt" });
+ * ```
+ */
+export function exportTranscript(
+  messages: TranscriptMessage[],
+  options: ExportTranscriptOptions,
+): string {
+  const timed = toTimedMessages(messages, options);
+
+  switch (options.format) {
+    case "json":
+      return toJson(timed, options.sessionStartedAt);
+    case "markdown":
+      return toMarkdown(timed);
+    case "text":
+      return toText(timed);
+    case "vtt":
+      return toVtt(timed);
+    case "srt":
+      return toSrt(timed);
+    default:
+      throw new VoxError(
+        "invalid_argument",
+        `Unsupported transcript format: ${options.format}`,
+      );
+  }
+}
+
+function toTimedMessages(
+  messages: TranscriptMessage[],
+  options: ExportTranscriptOptions,
+): TimedMessage[] {
+  const filtered = messages
+    .filter((message) => options.includeInterim || message.isFinal)
+    .filter((message) => options.includeTools || message.source !== "tool")
+    .filter((message) => options.includeSystem || message.source !== "system")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const startedAt = options.sessionStartedAt ?? filtered[0]?.timestamp ?? 0;
+
+  return filtered.map((message, index) => {
+    const startMs = Math.max(message.timestamp - startedAt, 0);
+    const next = filtered[index + 1];
+    const nextStartMs = next
+      ? Math.max(next.timestamp - startedAt, 0)
+      : Infinity;
+    const endMs = Math.max(
+      Math.min(nextStartMs, startMs + MAX_CUE_DURATION_MS),
+      startMs + MIN_CUE_DURATION_MS,
+    );
+    return { ...message, startMs, endMs };
+  });
+}
+
+function labelOf(source: string): string {
+  return SOURCE_LABELS[source] ?? source;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${pad(minutes)}:${pad(seconds)}`;
+  return hours > 0 ? `${pad(hours)}:${mmss}` : mmss;
+}
+
+function formatCueTime(ms: number, separator: "." | ","): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function toJson(messages: TimedMessage[], sessionStartedAt?: number): string {
+  return JSON.stringify(
+    {
+      sessionStartedAt: sessionStartedAt ?? messages[0]?.timestamp ?? null,
+      messages: messages.map(
+        ({ id, source, text, isFinal, timestamp, startMs }) => ({
+          id,
+          source,
+          text,
+          isFinal,
+          timestamp,
+          offsetMs: startMs,
+        }),
+      ),
+    },
+    null,
+    2,
+  );
+}
+
+function toMarkdown(messages: TimedMessage[]): string {
+  const lines = messages.map(
+    (message) =>
+      `**${labelOf(message.source)}** _[${formatClock(message.startMs)}]_: ${message.text}`,
+  );
+  return ["# Transcript", ...lines].join("\n\n") + "\n";
+}
+
+function toText(messages: TimedMessage[]): string {
+  return messages
+    .map(
+      (message) =>
+        `[${formatClock(message.startMs)}] ${labelOf(message.source)}: ${message.text}`,
+    )
+    .join("\n");
+}
+
+function toVtt(messages: TimedMessage[]): string {
+  const cues = messages.map(
+    (message, index) =>
+      `${index + 1}\n` +
+      `${formatCueTime(message.startMs, ".")} --> ${formatCueTime(message.endMs, ".")}\n` +
+      `<v ${labelOf(message.source)}>${escapeVtt(message.text)}`,
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+function toSrt(messages: TimedMessage[]): string {
+  return (
+    messages
+      .map(
+        (message, index) =>
+          `${index + 1}\n` +
+          `${formatCueTime(message.startMs, ",")} --> ${formatCueTime(message.endMs, ",")}\n` +
+          `${labelOf(message.source)}: ${message.text}`,
+      )
+      .join("\n\n") + "\n"
+  );
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
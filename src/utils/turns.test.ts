@@ -0,0 +1,111 @@
+import type { ConversationMessage } from "@vox-ai/client";
+import type { ClientToolCallRecord } from "./clientTools";
+import { createSystemMessage } from "./contextUpdates";
+import type { TurnMetrics } from "./metrics";
+import { groupTurns } from "./turns";
+
+function message(
+  id: string,
+  source: "user" | "agent",
+  timestamp: number,
+  text = id,
+  isFinal = true,
+): ConversationMessage {
+  return { id, source, text, isFinal, timestamp } as ConversationMessage;
+}
+
+function span(startedAt: number, endedAt: number, interrupted = false) {
+  return {
+    index: 0,
+    startedAt,
+    endedAt,
+    agentSpeakingMs: endedAt - startedAt,
+    interrupted,
+  } satisfies TurnMetrics;
+}
+
+describe("groupTurns", () => {
+  it("joins consecutive messages from the same speaker", () => {
+    const turns = groupTurns([
+      message("a2", "agent", 300, "How can I help?"),
+      message("u1", "user", 0, "Hi"),
+      message("a1", "agent", 200, "Hello."),
+      createSystemMessage("contextual_update", "User opened the page"),
+      message("u2", "user", 500, "Book a table"),
+    ]);
+
+    expect(
+      turns.map(({ id, role, text, startedAt, endedAt }) => ({
+        id,
+        role,
+        text,
+        startedAt,
+        endedAt,
+      })),
+    ).toEqual([
+      { id: "u1", role: "user", text: "Hi", startedAt: 0, endedAt: 0 },
+      {
+        id: "a1",
+        role: "agent",
+        text: "Hello. How can I help?",
+        startedAt: 200,
+        endedAt: 300,
+      },
+      {
+        id: "u2",
+        role: "user",
+        text: "Book a table",
+        startedAt: 500,
+        endedAt: 500,
+      },
+    ]);
+  });
+
+  it("takes end times and interruptions from speaking spans", () => {
+    const turns = groupTurns(
+      [
+        message("a1", "agent", 100),
+        message("u1", "user", 900),
+        message("a2", "agent", 1000),
+      ],
+      [],
+      [span(100, 800, true), span(1000, 1600)],
+    );
+
+    expect(turns[0]).toMatchObject({ endedAt: 800, interrupted: true });
+    expect(turns[2]).toMatchObject({ endedAt: 1600, interrupted: false });
+  });
+
+  it("treats an unfinished agent turn followed by the user as interrupted", () => {
+    const turns = groupTurns([
+      message("a1", "agent", 100, "Let me", false),
+      message("u1", "user", 200),
+    ]);
+
+    expect(turns[0].interrupted).toBe(true);
+  });
+
+  it("keeps the agent turn open while the agent is speaking", () => {
+    const turns = groupTurns([message("a1", "agent", 100)], [], [], true);
+
+    expect(turns[0].isFinal).toBe(false);
+  });
+
+  it("attaches tool calls to the turn they started in", () => {
+    const call: ClientToolCallRecord = {
+      toolCallId: "call_1",
+      toolName: "lookupOrder",
+      parameters: {},
+      startedAt: 250,
+      completedAt: 700,
+    };
+
+    const turns = groupTurns(
+      [message("u1", "user", 0), message("a1", "agent", 200)],
+      [call],
+    );
+
+    expect(turns[0].toolCalls).toEqual([]);
+    expect(turns[1]).toMatchObject({ toolCalls: [call], endedAt: 700 });
+  });
+});
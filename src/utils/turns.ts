@@ -0,0 +1,95 @@
+import type { ConversationMessage, ConversationSource } from "@vox-ai/client";
+import type { ClientToolCallRecord } from "./clientTools";
+import {
+  isConversationMessage,
+  type ConversationEntry,
+} from "./contextUpdates";
+import type { TurnMetrics } from "./metrics";
+
+export type ConversationTurn = {
+  /** 턴의 첫 메시지 id */
+  id: string;
+  role: ConversationSource;
+  /** 턴에 속한 메시지 text를 이어 붙인 값 */
+  text: string;
+  messages: ConversationMessage[];
+  /** 턴 동안 실행된 client tool 호출 */
+  toolCalls: ClientToolCallRecord[];
+  /** 턴의 모든 메시지가 확정되었고 agent가 더 이상 말하고 있지 않은지 여부 */
+  isFinal: boolean;
+  /** 사용자가 끼어들어 agent 발화가 끊겼는지 여부 (user 턴은 항상 `false`) */
+  interrupted: boolean;
+  startedAt: number;
+  endedAt: number;
+};
+
+/**
+ * Groups consecutive messages from the same speaker into turns. The message
+ * list already holds one entry per segment (interim updates replace it), so
+ * merging is a matter of joining neighbours. Agent speaking spans from the
+ * metrics tracker refine end times and interruption flags when available.
+ */
+export function groupTurns(
+  messages: ConversationEntry[],
+  toolCalls: ClientToolCallRecord[] = [],
+  speakingSpans: TurnMetrics[] = [],
+  agentSpeaking = false,
+): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+
+  messages
+    .filter(isConversationMessage)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((message) => {
+      const last = turns[turns.length - 1];
+      if (last?.role === message.source) {
+        last.messages.push(message);
+        last.text = [last.text, message.text].filter(Boolean).join(" ");
+        last.isFinal = last.isFinal && message.isFinal;
+        last.endedAt = Math.max(last.endedAt, message.timestamp);
+        return;
+      }
+      turns.push({
+        id: message.id,
+        role: message.source,
+        text: message.text,
+        messages: [message],
+        toolCalls: [],
+        isFinal: message.isFinal,
+        interrupted: false,
+        startedAt: message.timestamp,
+        endedAt: message.timestamp,
+      });
+    });
+
+  turns.forEach((turn, index) => {
+    const next = turns[index + 1];
+    if (turn.role !== "agent") return;
+
+    const span = speakingSpans.find(
+      (candidate) =>
+        candidate.endedAt >= turn.startedAt &&
+        (!next || candidate.startedAt < next.startedAt),
+    );
+    if (span) turn.endedAt = Math.max(turn.endedAt, span.endedAt);
+    // Without a speaking span, an agent turn cut off by the user is one whose
+    // transcript never became final.
+    turn.interrupted =
+      span?.interrupted ?? (next?.role === "user" && !turn.isFinal);
+  });
+
+  // The agent may still add segments to the turn it is speaking.
+  const last = turns[turns.length - 1];
+  if (agentSpeaking && last?.role === "agent") last.isFinal = false;
+
+  toolCalls.forEach((call) => {
+    const owner =
+      [...turns].reverse().find((turn) => turn.startedAt <= call.startedAt) ??
+      turns[0];
+    if (!owner) return;
+    owner.toolCalls.push(call);
+    owner.endedAt = Math.max(owner.endedAt, call.completedAt ?? call.startedAt);
+  });
+
+  return turns;
+}